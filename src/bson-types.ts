@@ -0,0 +1,109 @@
+import { Binary, Decimal128, ObjectID } from 'mongodb';
+import { walkFilter } from './filter-walker';
+
+const { keys } = Object;
+
+/**
+ * BSON types that filter values can be converted to before querying.
+ */
+export type BsonType = 'objectId' | 'date' | 'decimal' | 'uuid';
+
+/**
+ * A map of field paths to the BSON type of their values.
+ */
+export interface FieldTypes {
+  [field: string]: BsonType;
+}
+
+// Directives that mark the BSON type of a leaf's values
+export const BsonTypes: BsonType[] = ['objectId', 'date', 'decimal', 'uuid'];
+
+// Operations whose values are never field values
+const UntypedOperations = ['$exists', '$regex', '$options'];
+
+// Operations whose values are lists of field values
+const ListOperations = ['$in', '$nin'];
+
+/**
+ * Converts a single value to the passed BSON type. Values that already have the right type are left alone.
+ *
+ * @param type The BSON type to convert to.
+ * @param value The value to convert.
+ * @param field The field the value is for. Used for error messages.
+ * @return The converted value.
+ */
+export function coerceValue(type: BsonType, value: any, field: string): any {
+  if (value === null || typeof value === 'undefined' || typeof value === 'object') {
+    return value;
+  }
+
+  switch (type) {
+    case 'objectId':
+      // ObjectID.isValid also accepts numbers and any string of 12 characters
+      if (typeof value !== 'string' || !/^[0-9a-f]{24}$/i.test(value)) {
+        throw new Error(`Value '${value}' for field '${field}' is not a valid ObjectId.`);
+      }
+      return new ObjectID(value);
+    case 'date': {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        throw new Error(`Value '${value}' for field '${field}' is not a valid date.`);
+      }
+      return date;
+    }
+    case 'decimal':
+      try {
+        return Decimal128.fromString(String(value));
+      } catch (err) {
+        throw new Error(`Value '${value}' for field '${field}' is not a valid decimal.`);
+      }
+    case 'uuid': {
+      const hex = String(value).replace(/-/g, '');
+      if (!/^[0-9a-f]{32}$/i.test(hex)) {
+        throw new Error(`Value '${value}' for field '${field}' is not a valid UUID.`);
+      }
+      return new Binary(Buffer.from(hex, 'hex'), Binary.SUBTYPE_UUID);
+    }
+    default:
+      throw new Error(`Unknown BSON type '${type}' for field '${field}'.`);
+  }
+}
+
+/**
+ * Converts the values of the operations on a single field such as { $eq: '...', $in: [...] } in place.
+ *
+ * @param type The BSON type to convert to.
+ * @param operations The operations on the field.
+ * @param field The field the operations are for. Used for error messages.
+ */
+export function coerceOperations(type: BsonType, operations: any, field: string): void {
+  keys(operations)
+    .filter(operation => !UntypedOperations.includes(operation))
+    .forEach(operation => operations[operation] = coerceOperation(type, operation, operations[operation], field));
+}
+
+/**
+ * Converts the values of every field in a mongo filter that has a type in the passed field types in place.
+ * Handles logical operators and $elemMatch.
+ *
+ * @param query The mongo filter.
+ * @param fieldTypes The BSON type of each field path.
+ */
+export function coerceQuery(query: any, fieldTypes: FieldTypes): void {
+  if (!fieldTypes || !keys(fieldTypes).length) {
+    return;
+  }
+
+  walkFilter(query, ({ field, operator, value, logical, replace }) => {
+    const type = fieldTypes[field];
+    if (type && !logical && operator !== '$elemMatch' && !UntypedOperations.includes(operator)) {
+      replace(coerceOperation(type, operator, value, field));
+    }
+  });
+}
+
+function coerceOperation(type: BsonType, operation: string, value: any, field: string): any {
+  return ListOperations.includes(operation) && Array.isArray(value)
+    ? value.map(item => coerceValue(type, item, field))
+    : coerceValue(type, value, field);
+}
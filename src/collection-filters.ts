@@ -0,0 +1,88 @@
+import { MongoQueryInfo } from './graphql-to-mongo';
+
+const { keys } = Object;
+
+/**
+ * Builds the filter that every query on a collection must match from the context of the request.
+ * Return null or undefined to not restrict the query.
+ *
+ * @example
+ * context => ({ tenantId: context.tenantId })
+ */
+export type CollectionFilter = (context: any) => object;
+
+/**
+ * Mandatory filters per collection.
+ */
+export interface CollectionFilters {
+  [collection: string]: CollectionFilter;
+}
+
+/**
+ * Adds the mandatory filter of the query's collection to the query in place. The filter is combined with the
+ * query using $and so that the filters in the query can not override it. Inserted documents get the fields the
+ * filter matches on and updates can not change them.
+ *
+ * @param queryInfo The query to add the filter to.
+ * @param filters The mandatory filters per collection.
+ * @param context Context of the request, passed to the filter.
+ */
+export function applyCollectionFilter(queryInfo: MongoQueryInfo, filters: CollectionFilters, context?: any): void {
+  const { collection } = queryInfo;
+
+  // Joined documents are not filtered, so collections with a mandatory filter can not be joined
+  (queryInfo.lookups || [])
+    .filter(lookup => !!filters[lookup.from])
+    .forEach(lookup => {
+      throw new Error(`Can not join collection '${lookup.from}' on collection '${collection}'`);
+    });
+
+  const factory = filters[collection];
+  const filter = factory ? factory(context) : null;
+  if (!filter) {
+    return;
+  }
+
+  switch (queryInfo.operation) {
+    case 'insert':
+      queryInfo.insert = Array.isArray(queryInfo.insert)
+        ? queryInfo.insert.map(document => ({ ...document, ...insertedFields(collection, filter) }))
+        : { ...queryInfo.insert, ...insertedFields(collection, filter) };
+      return;
+    case 'update':
+      checkUpdate(queryInfo, filter);
+      break;
+  }
+
+  queryInfo.query = keys(queryInfo.query).length
+    ? { $and: [filter, queryInfo.query] }
+    : { ...filter };
+}
+
+function insertedFields(collection: string, filter: any): object {
+  return keys(filter).reduce((fields, field) => {
+    const value = filter[field];
+    if (field.startsWith('$') || isOperations(value)) {
+      throw new Error(`Can not insert into collection '${collection}' because its filter does not match on exact values`);
+    }
+
+    return { ...fields, [field]: value };
+  }, {});
+}
+
+function checkUpdate(queryInfo: MongoQueryInfo, filter: any): void {
+  const filtered = keys(filter).filter(field => !field.startsWith('$'));
+  keys(queryInfo.update)
+    .reduce((fields, operator) => [...fields, ...keys(queryInfo.update[operator])], [])
+    .filter(field => filtered.some(f => field === f || field.startsWith(`${f}.`) || f.startsWith(`${field}.`)))
+    .forEach(field => {
+      throw new Error(`Can not change field '${field}' on collection '${queryInfo.collection}'`);
+    });
+}
+
+function isOperations(value: any): boolean {
+  return !!value
+    && Object.prototype.toString.call(value) === '[object Object]'
+    && !value._bsontype
+    && keys(value).some(key => key.startsWith('$'));
+}
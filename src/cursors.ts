@@ -0,0 +1,149 @@
+import { Binary, Decimal128, Long, MaxKey, MinKey, ObjectID, Timestamp } from 'mongodb';
+import { serializeResult } from './serialization';
+
+const { keys } = Object;
+
+/**
+ * Sort order used for cursor based pagination. Always ends with _id so that every document has a unique position.
+ *
+ * @param sort The sort requested by the query.
+ * @param backward If true, the order is reversed for paging backwards from the end.
+ * @return The sort to apply to the query.
+ */
+export function cursorSort(sort: { [field: string]: number }, backward = false): { [field: string]: number } {
+  const ordered: { [field: string]: number } = { ...sort, _id: typeof sort._id === 'number' ? sort._id : 1 };
+  return keys(ordered)
+    .reduce((result, field) => ({
+      ...result,
+      [field]: backward ? -ordered[field] : ordered[field]
+    }), {});
+}
+
+/**
+ * Builds the opaque cursor for a document from the values of its sort fields. The values are stored as
+ * Canonical Extended JSON so that BSON values such as Decimal128 and UUIDs are restored from the cursor.
+ * Missing values are stored as null, which MongoDB sorts the same.
+ *
+ * @param document The document to build a cursor for.
+ * @param sort The sort that the document was retrieved with.
+ * @return The cursor.
+ */
+export function cursorFor(document: any, sort: { [field: string]: number }): string {
+  const values = keys(sort)
+    .map(field => getPath(document, field))
+    .map(value => typeof value === 'undefined' ? null : serializeResult(value, { mode: 'canonical' }));
+
+  return Buffer.from(JSON.stringify(values)).toString('base64');
+}
+
+/**
+ * Builds a filter that matches documents after (or before) the position of the passed cursor.
+ *
+ * @param cursor The cursor to start from.
+ * @param sort The sort that the cursor was built with.
+ * @param before If true, matches documents before the cursor instead of after.
+ * @return The filter.
+ */
+export function cursorFilter(cursor: string, sort: { [field: string]: number }, before = false): object {
+  const fields = keys(sort);
+  const values = decodeCursor(cursor);
+  if (values.length !== fields.length) {
+    throw new Error(`Invalid cursor '${cursor}'`);
+  }
+
+  // Match documents with a greater value on a sort field when all of the previous fields are equal
+  const conditions = fields
+    .map((field, i) => {
+      const next = nextValues(field, values[i], (sort[field] > 0) !== before);
+      return next && {
+        ...fields
+          .slice(0, i)
+          .reduce((equal, previous, j) => ({ ...equal, [previous]: values[j] }), {}),
+        ...next
+      };
+    })
+    .filter(condition => condition);
+
+  // Nothing comes before a cursor whose values are all null
+  if (!conditions.length) {
+    return { _id: { $in: [] } };
+  }
+  return conditions.length === 1
+    ? conditions[0]
+    : { $or: conditions };
+}
+
+// Null and missing values sort before all others, but are not matched by $gt or $lt. Only _id is never missing.
+function nextValues(field: string, value: any, ascending: boolean): object | null {
+  if (value === null) {
+    return ascending ? { [field]: { $ne: null } } : null;
+  }
+
+  return ascending || field === '_id'
+    ? { [field]: { [ascending ? '$gt' : '$lt']: value } }
+    : { $or: [{ [field]: { $lt: value } }, { [field]: null }] };
+}
+
+function decodeCursor(cursor: string): any[] {
+  let values: any;
+  try {
+    values = JSON.parse(Buffer.from(cursor, 'base64').toString());
+  } catch (err) {
+    throw new Error(`Invalid cursor '${cursor}'`);
+  }
+  if (!Array.isArray(values)) {
+    throw new Error(`Invalid cursor '${cursor}'`);
+  }
+
+  try {
+    return values.map(fromExtendedJson);
+  } catch (err) {
+    throw new Error(`Invalid cursor '${cursor}'`);
+  }
+}
+
+function fromExtendedJson(value: any): any {
+  if (value === null || typeof value !== 'object') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(fromExtendedJson);
+  }
+
+  const [key] = keys(value);
+  const wrapped = value[key];
+  switch (key) {
+    case '$oid':
+      return new ObjectID(wrapped);
+    case '$date':
+      return typeof wrapped === 'string'
+        ? new Date(wrapped)
+        : new Date(Number(wrapped.$numberLong));
+    case '$numberInt':
+    case '$numberDouble':
+      return Number(wrapped);
+    case '$numberLong':
+      return Long.fromString(wrapped);
+    case '$numberDecimal':
+      return Decimal128.fromString(wrapped);
+    case '$binary':
+      return new Binary(Buffer.from(wrapped.base64, 'base64'), parseInt(wrapped.subType, 16));
+    case '$timestamp':
+      return new Timestamp(wrapped.i, wrapped.t);
+    case '$regularExpression':
+      return new RegExp(wrapped.pattern, wrapped.options);
+    case '$minKey':
+      return new MinKey();
+    case '$maxKey':
+      return new MaxKey();
+    default:
+      return keys(value)
+        .reduce((result, field) => ({ ...result, [field]: fromExtendedJson(value[field]) }), {});
+  }
+}
+
+function getPath(document: any, path: string): any {
+  return path
+    .split('.')
+    .reduce((value, field) => value === null || typeof value === 'undefined' ? value : value[field], document);
+}
@@ -0,0 +1,99 @@
+/**
+ * How queries that scan a whole collection instead of using an index are handled by find.
+ * - allow: Queries run without being explained first.
+ * - log: Queries are explained first and collection scans are logged.
+ * - reject: Queries are explained first and requests with a collection scan return an error instead of querying.
+ */
+export type CollectionScanUsage = 'allow' | 'log' | 'reject';
+
+/**
+ * Summary of how MongoDB runs the query on a single collection.
+ */
+export interface ExplainSummary {
+  /**
+   * The plan that MongoDB chose to run the query with.
+   */
+  winningPlan: object;
+
+  /**
+   * The names of the indexes that the winning plan uses. Empty if it does not use any.
+   */
+  indexes: string[];
+
+  /**
+   * Whether the winning plan scans the whole collection.
+   */
+  collectionScan: boolean;
+
+  /**
+   * The number of documents examined, when reported.
+   */
+  docsExamined?: number;
+
+  /**
+   * The number of index keys examined, when reported.
+   */
+  keysExamined?: number;
+
+  /**
+   * The number of documents returned, when reported.
+   */
+  returned?: number;
+
+  /**
+   * How long the query took in milliseconds, when reported.
+   */
+  executionTimeMS?: number;
+
+  /**
+   * Set when the query scans the whole collection.
+   */
+  warning?: string;
+}
+
+/**
+ * Summarizes the output of explaining the query on a collection. Handles the output of explaining both finds and
+ * aggregates, for which the plan is reported by their first stage.
+ *
+ * @param collection The collection that the query is on.
+ * @param explained The output of explaining the query.
+ * @return The summary.
+ */
+export function summarizeExplain(collection: string, explained: any): ExplainSummary {
+  const stages = (explained && explained.stages) || [];
+  const cursorStage = explained && explained.queryPlanner
+    ? explained
+    : (stages.length && stages[0].$cursor) || {};
+  const winningPlan = (cursorStage.queryPlanner || {}).winningPlan || {};
+  const stats = cursorStage.executionStats || {};
+
+  const planStages = flattenPlan(winningPlan.queryPlan || winningPlan);
+  const indexes = planStages
+    .map(stage => stage.indexName)
+    .filter((name, i, names) => typeof name === 'string' && names.indexOf(name) === i);
+  const collectionScan = planStages.some(stage => stage.stage === 'COLLSCAN');
+
+  return {
+    winningPlan,
+    indexes,
+    collectionScan,
+    docsExamined: stats.totalDocsExamined,
+    keysExamined: stats.totalKeysExamined,
+    returned: stats.nReturned,
+    executionTimeMS: stats.executionTimeMillis,
+    ...(collectionScan ? { warning: `Query on collection '${collection}' scans the whole collection` } : {}),
+  };
+}
+
+function flattenPlan(plan: any): any[] {
+  if (!plan || typeof plan !== 'object') {
+    return [];
+  }
+
+  const children = [
+    ...(plan.inputStage ? [plan.inputStage] : []),
+    ...(plan.inputStages || []),
+    ...(plan.shards || []).map((shard: any) => shard.winningPlan),
+  ];
+  return [plan, ...children.reduce((stages, child) => [...stages, ...flattenPlan(child)], [])];
+}
@@ -0,0 +1,202 @@
+import { MongoQueryInfo } from './graphql-to-mongo';
+import { walkFilter } from './filter-walker';
+
+const { keys } = Object;
+
+/**
+ * Decides whether a field of a collection can be accessed for the passed request context.
+ * Called with the full path of the field, for example 'address.city'.
+ */
+export type FieldPredicate = (field: string, context?: any) => boolean;
+
+/**
+ * Which fields of a collection can be accessed. Either lists of field paths or a predicate.
+ * Denying a field also denies everything under it and allowing a field allows everything under it.
+ *
+ * @example
+ * {
+ *   allow: ['_id', 'name', 'address.city'],
+ *   deny: ['password']
+ * }
+ */
+export type FieldPolicy = { allow?: string[]; deny?: string[]; } | FieldPredicate;
+
+/**
+ * Field policies per collection.
+ */
+export interface FieldPolicies {
+  [collection: string]: FieldPolicy;
+}
+
+// How much of a field can be accessed. Partially accessible fields are returned without their denied subfields.
+type Access = 'none' | 'partial' | 'full';
+const AccessRanks: Access[] = ['none', 'partial', 'full'];
+
+/**
+ * Checks that a query only selects, filters on, sorts on and writes fields allowed by the field policies.
+ *
+ * @param queryInfo The query to check.
+ * @param policies The field policies per collection.
+ * @param context Context of the request, passed to predicates.
+ */
+export function checkFieldPolicies(queryInfo: MongoQueryInfo, policies: FieldPolicies, context?: any): void {
+  if (!hasPolicies(queryInfo, policies)) {
+    return;
+  }
+
+  const { collection } = queryInfo;
+  const check = (action: string) => (field: string) => {
+    if (fieldAccess(queryInfo, policies, field, context) === 'none') {
+      throw new Error(`Can not ${action} field '${field}' on collection '${collection}'`);
+    }
+  };
+
+  keys(queryInfo.fields).forEach(check('query'));
+  filterPaths(queryInfo.query).forEach(check('filter on'));
+  keys(queryInfo.sort).forEach(check('sort on'));
+  (queryInfo.lookups || []).forEach(lookup => {
+    check('filter on')(lookup.localField);
+    if (access(policies[lookup.from], lookup.foreignField, context) === 'none') {
+      throw new Error(`Can not filter on field '${lookup.foreignField}' on collection '${lookup.from}'`);
+    }
+  });
+  writePaths(queryInfo).forEach(check('write'));
+}
+
+/**
+ * Removes the fields that are not allowed by the field policies from the results of a query.
+ * This covers fields that are returned in their entirety, such as parents selected with include: true.
+ *
+ * @param results The results of the query. Either documents, a single document or a page of edges.
+ * @param queryInfo The query the results are for.
+ * @param policies The field policies per collection.
+ * @param context Context of the request, passed to predicates.
+ * @return The results without the fields that are not allowed.
+ */
+export function applyFieldPolicies(results: any, queryInfo: MongoQueryInfo, policies: FieldPolicies, context?: any): any {
+  if (!results || !hasPolicies(queryInfo, policies)) {
+    return results;
+  }
+
+  const strip = (document: any) => stripDocument(document, '', field => fieldAccess(queryInfo, policies, field, context));
+  if (Array.isArray(results)) {
+    return results.map(strip);
+  }
+  if (Array.isArray(results.edges)) {
+    return {
+      ...results,
+      edges: results.edges.map((edge: any) => ({ ...edge, node: strip(edge.node) })),
+    };
+  }
+
+  return strip(results);
+}
+
+function hasPolicies(queryInfo: MongoQueryInfo, policies: FieldPolicies): boolean {
+  return !!policies[queryInfo.collection]
+    || (queryInfo.lookups || []).some(lookup => !!policies[lookup.from]);
+}
+
+function fieldAccess(queryInfo: MongoQueryInfo, policies: FieldPolicies, field: string, context: any): Access {
+  const own = access(policies[queryInfo.collection], field, context);
+  const lookup = (queryInfo.lookups || []).find(l => isSameOrUnder(field, l.as));
+  if (!lookup || own === 'none') {
+    return own;
+  }
+
+  // Joined documents are also subject to the policy of the collection they come from
+  const joinedField = field === lookup.as ? '' : field.slice(lookup.as.length + 1);
+  const joined = access(policies[lookup.from], joinedField, context);
+  return AccessRanks[Math.min(AccessRanks.indexOf(own), AccessRanks.indexOf(joined))];
+}
+
+function access(policy: FieldPolicy, field: string, context: any): Access {
+  if (!policy) {
+    return 'full';
+  }
+  if (typeof policy === 'function') {
+    return !field || policy(field, context) ? 'partial' : 'none';
+  }
+  if (!field) {
+    return 'partial';
+  }
+
+  const { allow, deny } = policy;
+  if (deny && deny.some(denied => isSameOrUnder(field, denied))) {
+    return 'none';
+  }
+  if (allow && !allow.some(allowed => isSameOrUnder(field, allowed))) {
+    return allow.some(allowed => isUnder(allowed, field)) ? 'partial' : 'none';
+  }
+  if (deny && deny.some(denied => isUnder(denied, field))) {
+    return 'partial';
+  }
+
+  return 'full';
+}
+
+function stripDocument(document: any, prefix: string, accessFor: (field: string) => Access): any {
+  if (!isDocument(document)) {
+    return document;
+  }
+
+  return keys(document).reduce((result, key) => {
+    const field = `${prefix}${key}`;
+    const value = document[key];
+    switch (accessFor(field)) {
+      case 'none':
+        return result;
+      case 'full':
+        return { ...result, [key]: value };
+      default:
+        return {
+          ...result,
+          [key]: Array.isArray(value)
+            ? value.map(item => stripDocument(item, `${field}.`, accessFor))
+            : stripDocument(value, `${field}.`, accessFor)
+        };
+    }
+  }, {});
+}
+
+function filterPaths(query: any): string[] {
+  const paths: string[] = [];
+  walkFilter(query, ({ field, logical }) => {
+    if (!logical) {
+      paths.push(field);
+    }
+  });
+  return paths;
+}
+
+function writePaths(queryInfo: MongoQueryInfo): string[] {
+  const inserted = [].concat(queryInfo.insert || []);
+  const updated = keys(queryInfo.update || {}).map(operator => queryInfo.update[operator]);
+
+  return [...inserted, ...updated]
+    .reduce((paths, document) => [...paths, ...documentPaths(document)], []);
+}
+
+function documentPaths(document: any, prefix = ''): string[] {
+  return keys(document || {}).reduce((paths, key) => {
+    const field = `${prefix}${key}`;
+    const value = document[key];
+    return isDocument(value) && keys(value).length > 0
+      ? [...paths, ...documentPaths(value, `${field}.`)]
+      : [...paths, field];
+  }, []);
+}
+
+function isDocument(value: any): boolean {
+  return !!value
+    && Object.prototype.toString.call(value) === '[object Object]'
+    && !value._bsontype;
+}
+
+function isSameOrUnder(field: string, parent: string): boolean {
+  return field === parent || isUnder(field, parent);
+}
+
+function isUnder(field: string, parent: string): boolean {
+  return field.startsWith(`${parent}.`);
+}
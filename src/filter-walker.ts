@@ -0,0 +1,82 @@
+const { keys } = Object;
+
+/**
+ * A single operator found in a mongo filter.
+ */
+export interface FilterOperator {
+  /**
+   * The full path of the field that the operator is on, including the path of any $elemMatch it is inside of.
+   * For operators on the filter itself this is the path of the enclosing $elemMatch, or '' at the top level.
+   */
+  field: string;
+
+  /**
+   * The operator, such as $gt. Values that are matched without an operator are reported as $eq.
+   */
+  operator: string;
+
+  /**
+   * The value of the operator.
+   */
+  value: any;
+
+  /**
+   * Whether the operator is on the filter itself, such as $or or $text, rather than on a field.
+   */
+  logical: boolean;
+
+  /**
+   * Replaces the value of the operator in the filter.
+   */
+  replace: (value: any) => void;
+}
+
+/**
+ * Visits every operator of a mongo filter, going into the filters of logical operators and $elemMatch. The
+ * options of a regex are not an operator on their own and are not visited.
+ *
+ * @param query The mongo filter.
+ * @param visit Called for every operator.
+ */
+export function walkFilter(query: any, visit: (operator: FilterOperator) => void): void {
+  walk(query, '', visit);
+}
+
+function walk(query: any, prefix: string, visit: (operator: FilterOperator) => void): void {
+  for (const key of keys(query || {}).filter(key => key !== '$options')) {
+    const value = query[key];
+    const replace = (replacement: any) => query[key] = replacement;
+
+    // Logical operators hold a list of filters on the same level
+    if (key.startsWith('$')) {
+      visit({ field: prefix.slice(0, -1), operator: key, value, logical: true, replace });
+      if (Array.isArray(value)) {
+        value.forEach(filter => walk(filter, prefix, visit));
+      }
+      continue;
+    }
+
+    const field = `${prefix}${key}`;
+    if (!isOperations(value)) {
+      visit({ field, operator: '$eq', value, logical: false, replace });
+      continue;
+    }
+
+    for (const operator of keys(value).filter(op => op !== '$options')) {
+      visit({
+        field,
+        operator,
+        value: value[operator],
+        logical: false,
+        replace: replacement => value[operator] = replacement,
+      });
+      if (operator === '$elemMatch') {
+        walk(value.$elemMatch, `${field}.`, visit);
+      }
+    }
+  }
+}
+
+function isOperations(value: any): boolean {
+  return !!value && typeof value === 'object' && keys(value).some(op => op.startsWith('$'));
+}
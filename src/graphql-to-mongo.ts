@@ -2,24 +2,97 @@ import graphql from 'graphql-anywhere';
 import { ExecInfo } from 'graphql-anywhere';
 import { DocumentNode } from 'graphql';
 import { DirectiveInfo } from 'graphql-anywhere/lib/src/directives';
+import { getMainDefinition } from 'graphql-anywhere/lib/src/getFromAST';
+import { BsonType, BsonTypes, coerceOperations } from './bson-types';
 
 const { keys } = Object;
 
+/**
+ * The kind of write a mutation translates to.
+ */
+export type MongoMutationOperation = 'insert' | 'update' | 'delete';
+
+/**
+ * A join against another collection that is performed with a $lookup stage.
+ */
+export interface MongoLookupInfo {
+  from: string;
+  localField: string;
+  foreignField: string;
+  as: string;
+}
+
+/**
+ * How documents are grouped and which accumulators are computed for each group when a
+ * collection is annotated with @aggregate.
+ */
+export interface MongoAggregateInfo {
+  groupBy: string[];
+  accumulators: {
+    [field: string]: string;
+  };
+}
+
+/**
+ * Keyset pagination requested through the first, last, after and before arguments.
+ */
+export interface MongoCursorInfo {
+  after?: string;
+  before?: string;
+  backward: boolean;
+}
+
+/**
+ * How strings are compared when filtering and sorting. Set with @collation on a collection.
+ */
+export interface MongoCollation {
+  locale: string;
+  caseLevel?: boolean;
+  caseFirst?: string;
+  strength?: number;
+  numericOrdering?: boolean;
+  alternate?: string;
+  maxVariable?: string;
+  backwards?: boolean;
+}
+
 export interface MongoQueryInfo {
   collection: string;
+  alias?: string;
+  operation?: MongoMutationOperation;
+  insert?: object | object[];
+  update?: {
+    [operator: string]: any;
+  };
+  many?: boolean;
+  lookups?: MongoLookupInfo[];
+  aggregate?: MongoAggregateInfo;
+  cursor?: MongoCursorInfo;
+  count?: boolean;
+  maxTimeMS?: number;
+  readPreference?: string;
+  readConcern?: string;
+  collation?: MongoCollation;
   limit?: number;
   skip?: number;
   query: {
     [field: string]: any;
   };
   fields: {
-    [field: string]: number;
+    [field: string]: number | MongoTextScore;
   };
   sort: {
-    [field: string]: number;
+    [field: string]: number | MongoTextScore;
   };
 }
 
+/**
+ * Projects or sorts on how well a document matches the search of its collection.
+ */
+export interface MongoTextScore {
+  $meta: 'textScore';
+}
+
 interface FieldMetaData {
   directives?: DirectiveInfo;
   args?: any;
@@ -28,6 +101,7 @@ interface FieldMetaData {
 
 type QueryInfo = {
   path?: string[];
+  resultPath?: string[];
   isQuery?: boolean;
   [field: string]: any;
 };
@@ -36,91 +110,375 @@ interface ResolveContext {
   [path: string]: FieldMetaData;
 }
 
+// Where filter conditions are written to. Conditions inside an $elemMatch are relative to the array field.
+interface FilterTarget {
+  query: {
+    [field: string]: any;
+  };
+  depth: number;
+  groups: {
+    [key: string]: LogicalGroup;
+  };
+}
+
+// Conditions from leaves annotated with @or or @nor that share the same group
+interface LogicalGroup {
+  operator: string;
+  conditions: object[];
+}
+
 // Arguments that are only valid for the entire collection
-export const ValidCollectionArgs = ['limit', 'skip'];
+export const ValidCollectionArgs = ['limit', 'skip', 'count', 'first', 'last', 'after', 'before', 'search', 'language', 'caseSensitive'];
 const validateCollectionArgs = (args: any) => keys(args)
   .filter(arg => !ValidCollectionArgs.includes(arg))
   .forEach(arg => {
     throw new Error(`Argument '${arg}' is not a valid collection-level argument.`);
   });
 
+// Collection arguments for cursor based pagination
+export const PagingArgs = ['first', 'last', 'after', 'before'];
+
+// Collection arguments for searching the text index of a collection
+export const SearchArgs = ['search', 'language', 'caseSensitive'];
+
+// Projection and sort on the relevance of a document to a search
+const TextScore: MongoTextScore = { $meta: 'textScore' };
+
+// Arguments that are only valid for the entire collection in a mutation
+export const ValidMutationArgs = ['insert', 'delete', 'set', 'inc', 'unset', 'push', 'pull', 'addToSet', 'many'];
+const validateMutationArgs = (args: any) => keys(args)
+  .filter(arg => !ValidMutationArgs.includes(arg))
+  .forEach(arg => {
+    throw new Error(`Argument '${arg}' is not a valid mutation argument.`);
+  });
+
+// Mutation arguments that translate to mongo update operators
+export const UpdateOperators = ['set', 'inc', 'unset', 'push', 'pull', 'addToSet'];
+
 // Arguments that are only valid for non-leaf nodes
-export const ValidNonLeafArguments = ['include'];
+export const ValidNonLeafArguments = ['include', 'elemMatch'];
 const validateNonLeafArgs = (args: any) => keys(args)
   .filter(arg => !ValidNonLeafArguments.includes(arg))
   .forEach(arg => {
     throw new Error(`Argument '${arg}' is not a valid non-leaf-level argument.`);
   });
 
+// Arguments that filter on the location held by a leaf
+export const GeoArguments = ['near', 'nearSphere', 'maxDistance', 'minDistance', 'geoWithin', 'geoIntersects'];
+
+// Shapes that geoWithin accepts in place of a GeoJSON geometry
+export const GeoShapes = ['box', 'polygon', 'center', 'centerSphere'];
+
 // Arguments that are valid for any leaf
-export const ValidLeafArguments = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'exists', 'regex', 'options'];
+export const ValidLeafArguments = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'nin', 'exists', 'regex', 'options', ...GeoArguments];
 const validateLeafArguments = (args: any) => keys(args)
   .filter(arg => !ValidLeafArguments.includes(arg))
   .forEach(arg => {
     throw new Error(`Argument '${arg}' is not a valid field-level argument.`);
   });
 
+// Directives that move a leaf's filter into a logical group
+export const LogicalDirectives = ['or', 'nor'];
+
+// Directives that compute a value for each group in an aggregate
+export const AccumulatorDirectives = ['count', 'sum', 'avg', 'min', 'max'];
+
+// Modes that can be passed to @readPreference on a collection
+export const ReadPreferenceModes = ['primary', 'primaryPreferred', 'secondary', 'secondaryPreferred', 'nearest'];
+
+// Levels that can be passed to @readConcern on a collection
+export const ReadConcernLevels = ['local', 'available', 'majority', 'linearizable', 'snapshot'];
+
 // Special arguments that should be handled after other operations
-const SpecialOperations = ['options'];
+const SpecialOperations = ['options', 'maxDistance', 'minDistance'];
 const precedenceSort = (a: string) => SpecialOperations.includes(a) ? 1 : -1;
 
 export function graphqlToMongo(query: DocumentNode, variables?: object): MongoQueryInfo[] {
   // Use resolver to build an intermediate model of how the mongo query will look
   const context: ResolveContext = {};
   const result = graphql(resolve, query, null, context, variables);
+  const isMutation = isMutationDocument(query);
 
   // Build data structure to hold query info
   const queries = keys(result)
-    .map(collection => {
+    .map(key => {
+      const [collection] = context[key].path;
       const baseQuery: any = {
         collection,
+        ...(key === collection ? {} : { alias: key }),
         query: {},
         fields: {},
         sort: {}
       };
 
+      // Check for args at the collection level like limit & skip
+      const extraParams: FieldMetaData = context[key].args || <any>{};
+      if (isMutation) {
+        validateMutationArgs(extraParams);
+        return buildMutation(baseQuery, extraParams);
+      }
+      validateCollectionArgs(extraParams);
+
+      // Group results instead of returning documents
+      if ('aggregate' in context[key].directives) {
+        baseQuery.aggregate = {
+          groupBy: [],
+          accumulators: {},
+        };
+      }
+
+      // Apply read preference, read concern and collation
+      applyReadOptions(baseQuery, context[key].directives);
+
+      // Search the text index of the collection
+      applySearch(baseQuery, extraParams, context[key].directives);
+
       // Add on any extra parameters like limit, skip, sort, etc.
-      const extraParams: FieldMetaData = context[collection].args || <any>{};
       keys(extraParams)
+        .filter(key => !PagingArgs.includes(key) && !SearchArgs.includes(key))
         .forEach(key => {
           if (typeof extraParams[key] !== 'undefined') {
             baseQuery[key] = extraParams[key];
           }
         });
 
-      return <MongoQueryInfo>baseQuery;
+      return applyPaging(baseQuery, extraParams);
     });
 
   // Process each collection subtree to discover how the mongo query should look
   queries
-    .forEach(queryInfo => buildQuery(result[queryInfo.collection], [], queryInfo, context));
+    .forEach(queryInfo => {
+      const filter = filterTarget(queryInfo.query, 0);
+      buildQuery(result[resultKey(queryInfo)], [], queryInfo, context, false, filter);
+      applyLogicalGroups(filter);
+    });
+
+  // Documents matching near or nearSphere come back sorted by distance, which cursors and pipelines can not keep
+  queries
+    .filter(queryInfo => queryInfo.cursor || queryInfo.lookups || queryInfo.aggregate)
+    .filter(queryInfo => keys(queryInfo.query).some(field => isNear(queryInfo.query[field])))
+    .forEach(queryInfo => {
+      throw new Error(`Can not combine near or nearSphere with cursor arguments, @lookup or @aggregate on collection '${queryInfo.collection}'.`);
+    });
+
+  // A score field on a searched collection holds the relevance of each document
+  queries
+    .filter(queryInfo => queryInfo.query.$text && queryInfo.fields.score === 1)
+    .forEach(queryInfo => queryInfo.fields.score = TextScore);
+
+  // Inserts only make use of the projection
+  queries
+    .filter(queryInfo => queryInfo.operation === 'insert' && keys(queryInfo.query).length > 0)
+    .forEach(queryInfo => {
+      throw new Error(`Filters are not supported when inserting into collection '${queryInfo.collection}'.`);
+    });
 
   return queries;
 }
 
+/**
+ * The key that results for the passed {MongoQueryInfo} are returned under. This is the alias
+ * if one was given or the collection name otherwise.
+ */
+export function resultKey(queryInfo: MongoQueryInfo): string {
+  return queryInfo.alias || queryInfo.collection;
+}
+
+export function isMutationDocument(query: DocumentNode): boolean {
+  const definition = getMainDefinition(query);
+  return definition.kind === 'OperationDefinition' && definition.operation === 'mutation';
+}
+
+function applyReadOptions(baseQuery: any, directives: DirectiveInfo): void {
+  const { collection } = baseQuery;
+
+  if ('readPreference' in directives) {
+    const { mode } = directives.readPreference || <any>{};
+    if (!ReadPreferenceModes.includes(mode)) {
+      throw new Error(`The @readPreference directive on collection '${collection}' requires a mode of: ${ReadPreferenceModes.join(', ')}.`);
+    }
+    baseQuery.readPreference = mode;
+  }
+
+  if ('readConcern' in directives) {
+    const { level } = directives.readConcern || <any>{};
+    if (!ReadConcernLevels.includes(level)) {
+      throw new Error(`The @readConcern directive on collection '${collection}' requires a level of: ${ReadConcernLevels.join(', ')}.`);
+    }
+    baseQuery.readConcern = level;
+  }
+
+  if ('collation' in directives) {
+    const args = directives.collation || {};
+    if (typeof args.locale !== 'string') {
+      throw new Error(`The @collation directive on collection '${collection}' requires a locale.`);
+    }
+    baseQuery.collation = keys(args)
+      .filter(arg => typeof args[arg] !== 'undefined')
+      .reduce((collation, arg) => ({ ...collation, [arg]: args[arg] }), {});
+  }
+}
+
+function applySearch(baseQuery: any, args: any, directives: DirectiveInfo): void {
+  const { collection } = baseQuery;
+  const sortByScore = 'sortByScore' in directives;
+
+  if (!isDefined(args, 'search')) {
+    if (isDefined(args, 'language') || isDefined(args, 'caseSensitive') || sortByScore) {
+      throw new Error(`Argument 'search' is required to search collection '${collection}'.`);
+    }
+    return;
+  }
+
+  baseQuery.query.$text = {
+    $search: args.search,
+    ...(isDefined(args, 'language') ? { $language: args.language } : {}),
+    ...(isDefined(args, 'caseSensitive') ? { $caseSensitive: args.caseSensitive } : {}),
+  };
+
+  if (!sortByScore) {
+    return;
+  }
+  if (baseQuery.aggregate) {
+    throw new Error(`The @sortByScore directive can not be used when aggregating collection '${collection}'.`);
+  }
+  if (PagingArgs.some(arg => isDefined(args, arg))) {
+    throw new Error(`Can not combine @sortByScore with cursor arguments on collection '${collection}'.`);
+  }
+
+  // The score has to be projected to sort on it
+  baseQuery.fields.score = TextScore;
+  baseQuery.sort.score = TextScore;
+}
+
+function applyPaging(baseQuery: any, args: any): MongoQueryInfo {
+  const { collection } = baseQuery;
+  if (!PagingArgs.some(arg => isDefined(args, arg))) {
+    return baseQuery;
+  }
+
+  if (isDefined(args, 'limit') || isDefined(args, 'skip')) {
+    throw new Error(`Can not combine limit or skip with cursor arguments on collection '${collection}'.`);
+  }
+  if (isDefined(args, 'first') && isDefined(args, 'last')) {
+    throw new Error(`Can not combine first and last on collection '${collection}'.`);
+  }
+  if (baseQuery.aggregate) {
+    throw new Error(`Cursor arguments are not supported when aggregating collection '${collection}'.`);
+  }
+
+  ['first', 'last']
+    .filter(arg => isDefined(args, arg) && !isPageSize(args[arg]))
+    .forEach(arg => {
+      throw new Error(`Argument '${arg}' on collection '${collection}' must be a non-negative integer.`);
+    });
+
+  const backward = isDefined(args, 'last');
+  const cursor: MongoCursorInfo = { backward };
+  if (isDefined(args, 'after')) {
+    cursor.after = args.after;
+  }
+  if (isDefined(args, 'before')) {
+    cursor.before = args.before;
+  }
+
+  // The page size is enforced like any other limit
+  const pageSize = backward ? args.last : args.first;
+  return {
+    ...baseQuery,
+    cursor,
+    ...(typeof pageSize === 'undefined' || pageSize === null ? {} : { limit: pageSize })
+  };
+}
+
+// Arguments that are passed as null count as not passed
+function isDefined(args: any, arg: string): boolean {
+  return typeof args[arg] !== 'undefined' && args[arg] !== null;
+}
+
+function isPageSize(value: any): boolean {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+function buildMutation(baseQuery: any, args: any): MongoQueryInfo {
+  const { collection } = baseQuery;
+  const updateOperators = UpdateOperators.filter(operator => isDefined(args, operator));
+
+  if (isDefined(args, 'insert')) {
+    if (updateOperators.length || isDefined(args, 'delete') || isDefined(args, 'many')) {
+      throw new Error(`Can not combine insert with other mutation arguments on collection '${collection}'.`);
+    }
+
+    return {
+      ...baseQuery,
+      operation: 'insert',
+      insert: args.insert,
+    };
+  }
+
+  if (args.delete === true) {
+    if (updateOperators.length) {
+      throw new Error(`Can not combine delete with update operators on collection '${collection}'.`);
+    }
+
+    return {
+      ...baseQuery,
+      operation: 'delete',
+      many: args.many === true,
+    };
+  }
+
+  if (updateOperators.length) {
+    return {
+      ...baseQuery,
+      operation: 'update',
+      update: updateOperators.reduce((update, operator) => ({
+        ...update,
+        [`$${operator}`]: operator === 'unset'
+          ? toUnsetFields(args.unset)
+          : args[operator]
+      }), {}),
+      many: args.many === true,
+    };
+  }
+
+  throw new Error(`Mutation on collection '${collection}' must specify one of: ${['insert', 'delete', ...UpdateOperators].join(', ')}.`);
+}
+
+function toUnsetFields(value: any) {
+  // Allow a list of field names as shorthand for { field: '' }
+  if (!Array.isArray(value)) {
+    return value;
+  }
+
+  return value.reduce((fields: any, field: string) => ({ ...fields, [field]: '' }), {});
+}
+
 function resolve(fieldName: string, rootValue: any, args: any, context: ResolveContext, info: ExecInfo): QueryInfo {
-  // Calculate path to field
+  // Calculate path to field and the path to where it appears in the result, which differs when using aliases
   const path = [
     ...(rootValue && rootValue.path
       ? rootValue.path
       : []),
     fieldName
   ];
-  const pathKey = path.join('.');
+  const resultPath = [
+    ...(rootValue && rootValue.resultPath
+      ? rootValue.resultPath
+      : []),
+    info.resultKey
+  ];
+  const pathKey = resultPath.join('.');
 
-  // Attach metadata
+  // Attach metadata, combining it with any earlier occurrence of the same field such as from another fragment
+  const existing = context[pathKey];
   context[pathKey] = {
-    directives: info.directives || {},
-    args: args || {},
+    directives: mergeArgs(pathKey, 'directive', existing && existing.directives, info.directives),
+    args: mergeArgs(pathKey, 'argument', existing && existing.args, args),
+    path,
   };
 
-  // Check for args at the collection level like limit & skip
-  if (!rootValue && args) {
-    validateCollectionArgs(args);
-  }
-
-  // Error if applying args to anything other than the collection
-  // TODO: Support array field types
+  // Only allow args that make sense for nested documents and arrays
   if (rootValue && !info.isLeaf && args) {
     validateNonLeafArgs(args);
   }
@@ -132,21 +490,44 @@ function resolve(fieldName: string, rootValue: any, args: any, context: ResolveC
 
   return {
     path,
+    resultPath,
     isQuery: true
   };
 }
 
-function buildQuery(node: QueryInfo, parents: string[], queryInfo: MongoQueryInfo, context: ResolveContext, ancestorProjected = false): void {
+function mergeArgs(path: string, kind: string, existing: any, args: any): any {
+  const merged = { ...(existing || {}) };
+  keys(args || {})
+    .forEach(name => {
+      if (typeof merged[name] === 'undefined') {
+        merged[name] = args[name];
+      } else if (typeof args[name] !== 'undefined' && JSON.stringify(merged[name]) !== JSON.stringify(args[name])) {
+        throw new Error(`Field '${path}' is selected more than once with conflicting values for ${kind} '${name}'.`);
+      }
+    });
+
+  return merged;
+}
+
+function buildQuery(
+  node: QueryInfo,
+  parents: string[],
+  queryInfo: MongoQueryInfo,
+  context: ResolveContext,
+  ancestorProjected: boolean,
+  filter: FilterTarget
+): void {
   if (!node) {
     return;
   }
 
-  const parentPath = parents.join('.');
-  for (const field of keys(node)) {
-    const path = [...parents, field];
+  for (const key of keys(node)) {
+    const resultPath = [...parents, key];
+    const metaData = context[[resultKey(queryInfo), ...resultPath].join('.')];
+    const path: string[] = metaData.path.slice(1);
     const fieldPath = path.join('.');
-    const metaData = context[`${queryInfo.collection}.${fieldPath}`];
-    const childNode = node[field];
+    const filterPath = path.slice(filter.depth).join('.');
+    const childNode = node[key];
     const args = metaData.args || {};
 
     // Apply projection
@@ -155,6 +536,14 @@ function buildQuery(node: QueryInfo, parents: string[], queryInfo: MongoQueryInf
       ancestorProjected = true;
     }
 
+    // Apply joins against other collections
+    if ('lookup' in metaData.directives) {
+      applyLookup(queryInfo, fieldPath, metaData.directives.lookup, filter);
+    }
+
+    // Apply grouping and accumulators
+    applyAggregate(queryInfo, fieldPath, metaData.directives, childNode.isQuery && !isFilter(args));
+
     // Apply sorting
     if ('sort' in metaData.directives) {
       queryInfo.sort[fieldPath] = 1;
@@ -165,7 +554,10 @@ function buildQuery(node: QueryInfo, parents: string[], queryInfo: MongoQueryInf
 
     // Process leaf queries
     if (childNode.isQuery) {
-      const operations = queryInfo.query[fieldPath] = queryInfo.query[fieldPath] || {};
+      const group = getLogicalGroup(fieldPath, metaData.directives, filter);
+      const operations = group
+        ? {}
+        : filter.query[filterPath] = filter.query[filterPath] || {};
       for (const operation of keys(args).sort(precedenceSort)) {
         const value = args[operation];
         if (typeof value !== 'undefined') {
@@ -173,22 +565,148 @@ function buildQuery(node: QueryInfo, parents: string[], queryInfo: MongoQueryInf
         }
       }
 
+      // Convert values for fields annotated with a BSON type
+      const bsonType = getBsonType(fieldPath, metaData.directives);
+      if (bsonType) {
+        coerceOperations(bsonType, operations, fieldPath);
+      }
+
+      // Grouped conditions are combined once the whole filter is built
+      if (group && keys(operations).length > 0) {
+        group.conditions.push({ [filterPath]: operations });
+      }
+
       // If results in empty object, blank it out
-      if (operations && keys(operations).length === 0) {
-        delete queryInfo.query[fieldPath];
+      if (!group && operations && keys(operations).length === 0) {
+        delete filter.query[filterPath];
       }
 
       // Add leaf fields to projection
       if (!ancestorProjected) {
         queryInfo.fields[fieldPath] = 1;
       }
+    } else if (args.elemMatch === true) {
+      // Match all child conditions against the same array element
+      const elemMatch = filterTarget({}, path.length);
+      buildQuery(childNode, resultPath, queryInfo, context, ancestorProjected, elemMatch);
+      applyLogicalGroups(elemMatch);
+      if (keys(elemMatch.query).length > 0) {
+        filter.query[filterPath] = { $elemMatch: elemMatch.query };
+      }
     } else if (keys(childNode).length > 0) {
       // Recursively process children for nested objects
-      buildQuery(childNode, path, queryInfo, context, ancestorProjected);
+      buildQuery(childNode, resultPath, queryInfo, context, ancestorProjected, filter);
     }
   }
 }
 
+function applyLookup(queryInfo: MongoQueryInfo, fieldPath: string, args: any, filter: FilterTarget): void {
+  const { from, localField, foreignField } = args || <any>{};
+  if (filter.depth > 0) {
+    throw new Error(`The @lookup directive on field '${fieldPath}' can not be used inside an elemMatch.`);
+  }
+  if ([from, localField, foreignField].some(arg => typeof arg !== 'string')) {
+    throw new Error(`The @lookup directive on field '${fieldPath}' requires from, localField and foreignField.`);
+  }
+
+  queryInfo.lookups = [
+    ...(queryInfo.lookups || []),
+    { from, localField, foreignField, as: fieldPath }
+  ];
+}
+
+function applyAggregate(queryInfo: MongoQueryInfo, fieldPath: string, directives: DirectiveInfo, isOutput: boolean): void {
+  const operators = AccumulatorDirectives.filter(directive => directive in directives);
+  const isGroupBy = 'groupBy' in directives;
+  const { aggregate, collection } = queryInfo;
+  if (!operators.length && !isGroupBy) {
+    // Grouped rows only hold the group and accumulator fields, so other leaves can only filter
+    if (aggregate && isOutput) {
+      throw new Error(`Field '${fieldPath}' must use @groupBy or one of: ${AccumulatorDirectives.map(d => `@${d}`).join(', ')} or filter when aggregating collection '${collection}'.`);
+    }
+    return;
+  }
+
+  const [directive] = isGroupBy ? ['groupBy'] : operators;
+  if (!aggregate) {
+    throw new Error(`The @${directive} directive on field '${fieldPath}' requires @aggregate on collection '${collection}'.`);
+  }
+  if (operators.length + (isGroupBy ? 1 : 0) > 1) {
+    throw new Error(`Field '${fieldPath}' can not use more than one of: ${['groupBy', ...AccumulatorDirectives].map(d => `@${d}`).join(', ')}.`);
+  }
+
+  if (isGroupBy) {
+    aggregate.groupBy.push(fieldPath);
+  } else {
+    aggregate.accumulators[fieldPath] = directive;
+  }
+}
+
+// Whether a leaf's arguments filter on it rather than only selecting it
+function isFilter(args: any): boolean {
+  return keys(args).some(arg => arg !== 'include' && typeof args[arg] !== 'undefined');
+}
+
+function getBsonType(fieldPath: string, directives: DirectiveInfo): BsonType {
+  const types = BsonTypes.filter(type => type in directives);
+  if (types.length > 1) {
+    throw new Error(`Field '${fieldPath}' can not use more than one of: ${BsonTypes.map(t => `@${t}`).join(', ')}.`);
+  }
+
+  return types[0];
+}
+
+function filterTarget(query: object, depth: number): FilterTarget {
+  return {
+    query,
+    depth,
+    groups: {},
+  };
+}
+
+function getLogicalGroup(fieldPath: string, directives: DirectiveInfo, filter: FilterTarget): LogicalGroup {
+  const operators = LogicalDirectives.filter(directive => directive in directives);
+  if (operators.length > 1) {
+    throw new Error(`Field '${fieldPath}' can not use more than one of: ${LogicalDirectives.map(d => `@${d}`).join(', ')}.`);
+  }
+  if (!operators.length) {
+    return null;
+  }
+
+  // Leaves without a group name are grouped together
+  const [operator] = operators;
+  const args = directives[operator] || {};
+  const key = `${operator}:${typeof args.group === 'undefined' ? '' : args.group}`;
+  return filter.groups[key] = filter.groups[key] || {
+    operator: `$${operator}`,
+    conditions: [],
+  };
+}
+
+function applyLogicalGroups(filter: FilterTarget): void {
+  const groups = keys(filter.groups)
+    .map(key => filter.groups[key])
+    .filter(group => group.conditions.length > 0);
+
+  // Every field in any $nor group must not match, so they can all share one $nor
+  const nor = groups
+    .filter(group => group.operator === '$nor')
+    .reduce((conditions, group) => [...conditions, ...group.conditions], []);
+  if (nor.length) {
+    filter.query.$nor = nor;
+  }
+
+  // Each $or group must match on its own, so several of them have to be combined with $and
+  const or = groups
+    .filter(group => group.operator === '$or')
+    .map(group => group.conditions);
+  if (or.length === 1) {
+    filter.query.$or = or[0];
+  } else if (or.length > 1) {
+    filter.query.$and = or.map(conditions => ({ $or: conditions }));
+  }
+}
+
 function applyOperation(obj: any, operation: string, value: any) {
   switch(operation) {
     case 'options':
@@ -196,7 +714,40 @@ function applyOperation(obj: any, operation: string, value: any) {
         obj[`$options`] = value;
       }
       break;
+    case 'near':
+    case 'nearSphere':
+    case 'geoIntersects':
+      obj[`$${operation}`] = { $geometry: value };
+      break;
+    case 'geoWithin':
+      obj[`$${operation}`] = geoShape(value);
+      break;
+    case 'maxDistance':
+    case 'minDistance': {
+      const near = obj['$near'] || obj['$nearSphere'];
+      if (!near) {
+        throw new Error(`Argument '${operation}' requires near or nearSphere.`);
+      }
+      near[`$${operation}`] = value;
+      break;
+    }
     default:
       obj[`$${operation}`] = value;
   }
 }
+
+function isNear(operations: any): boolean {
+  return !!operations && typeof operations === 'object' && ('$near' in operations || '$nearSphere' in operations);
+}
+
+function geoShape(value: any): object {
+  if (value && typeof value.type === 'string') {
+    return { $geometry: value };
+  }
+
+  const shapes = GeoShapes.filter(shape => value && typeof value[shape] !== 'undefined');
+  if (shapes.length !== 1) {
+    throw new Error(`Argument 'geoWithin' requires a GeoJSON geometry or one of: ${GeoShapes.join(', ')}.`);
+  }
+  return { [`$${shapes[0]}`]: value[shapes[0]] };
+}
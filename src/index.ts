@@ -1,7 +1,18 @@
 import { graphqlClient } from './mongo-grqphql-client-factory';
 
-export { MongoGraphQLClient, GraphQLMongoClientOptions } from './mongo-graphql-client';
-export { graphqlToMongo } from './graphql-to-mongo';
-export { findOne, findAll, findMultiple } from './mongo-queries';
+export { MongoGraphQLClient, GraphQLMongoClientOptions, ReadOptions, RequestOptions } from './mongo-graphql-client';
+export { BsonType, FieldTypes } from './bson-types';
+export { CollectionFilter, CollectionFilters } from './collection-filters';
+export { QueryCost, QueryLimitError, QueryLimits, RegexUsage } from './query-limits';
+export { FieldPolicies, FieldPolicy, FieldPredicate } from './field-policies';
+export { CollectionScanUsage, ExplainSummary, summarizeExplain } from './explain';
+export { renderMongoQuery, RenderedQuery } from './render-query';
+export { cacheKey, CacheOptions, MemoryCache, QueryCache } from './query-cache';
+export { renderShellValue } from './shell-values';
+export { serializeResult, SerializationMode, SerializationOptions } from './serialization';
+export { inferSchema, InferSchemaOptions, InferredSchema } from './schema-inference';
+export { buildValidationSchema, validateQuery } from './schema-validation';
+export { graphqlToMongo, MongoCollation, MongoQueryInfo, MongoTextScore, resultKey } from './graphql-to-mongo';
+export { CancellationSignal, findOne, findAll, findMultiple, explain, insert, update, remove, buildPipeline } from './mongo-queries';
 
 export default graphqlClient;
@@ -1,9 +1,27 @@
 import { Db } from 'mongodb';
-import { DocumentNode } from 'graphql';
+import { DocumentNode, formatError, GraphQLSchema } from 'graphql';
 import { parse } from 'graphql/language/parser';
-import { findMultiple, findOne, GraphQLExecutionResult } from './mongo-queries';
-import { graphqlToMongo } from './graphql-to-mongo';
+import {
+  CancellationSignal,
+  explain,
+  findMultiple,
+  findOne,
+  GraphQLExecutionResult,
+  insert,
+  remove,
+  update
+} from './mongo-queries';
+import { graphqlToMongo, isMutationDocument, MongoCollation, MongoQueryInfo, resultKey } from './graphql-to-mongo';
 import { log } from './log';
+import { coerceQuery, FieldTypes } from './bson-types';
+import { serializeResult, SerializationOptions } from './serialization';
+import { buildValidationSchema, validateQuery } from './schema-validation';
+import { applyFieldPolicies, checkFieldPolicies, FieldPolicies } from './field-policies';
+import { applyCollectionFilter, CollectionFilters } from './collection-filters';
+import { checkQueryLimits, QueryLimits } from './query-limits';
+import { CollectionScanUsage, summarizeExplain } from './explain';
+import { renderMongoQuery } from './render-query';
+import { CacheOptions, CacheSettings, MemoryCache } from './query-cache';
 
 /**
  * Function that formats errors off of {GraphQLExecutionResult}s.
@@ -29,6 +47,7 @@ export interface GraphQLMongoClientOptions {
    * Function to format error objects. Defaults to the following format:
    * {
    *   collection: string;
+   *   resultKey: string; // the alias of the query, or the collection if it has none
    *   message: string;
    *   stack?: string[]; // if includeStack === true
    * }
@@ -47,6 +66,192 @@ export interface GraphQLMongoClientOptions {
    * an error will be thrown. Defaults to 10000.
    */
   maxLimit?: number;
+
+  /**
+   * If true, every collection queried using find will also count the total number of matching documents
+   * and report it in {_meta} as if `count: true` had been passed. Defaults to false.
+   */
+  includeCount?: boolean;
+
+  /**
+   * The BSON types of fields per collection. Filter values for these fields are converted to the
+   * given type before querying, the same as annotating the field with the matching directive.
+   *
+   * @example
+   * {
+   *   users: {
+   *     _id: 'objectId',
+   *     createdAt: 'date'
+   *   }
+   * }
+   */
+  fieldTypes?: {
+    [collection: string]: FieldTypes;
+  };
+
+  /**
+   * How documents in results are serialized. By default they are returned exactly as the driver
+   * returns them.
+   *
+   * @example
+   * {
+   *   mode: 'json', // ObjectIds as hex strings, dates as ISO strings, etc.
+   *   renameId: true // _id is returned as id
+   * }
+   */
+  serialization?: SerializationOptions;
+
+  /**
+   * Collections that documents can be deleted from. This is separate from the {whitelist} and
+   * deletes are refused for every collection unless it is listed here.
+   */
+  allowDelete?: string[];
+
+  /**
+   * The maximum number of documents a single delete may affect. The matching documents are counted
+   * before deleting and an error is returned if there are more than this. Defaults to 100.
+   */
+  maxDeleteCount?: number;
+
+  /**
+   * The schema to validate queries against, either as a {GraphQLSchema} or as SDL such as the one
+   * returned by {inferSchema}. When passed, find and findOne return validation errors instead of
+   * querying whenever a query uses unknown collections or fields or passes arguments of the wrong type.
+   * The scalars and directives of this library are added to an SDL that does not define them.
+   */
+  schema?: GraphQLSchema | string;
+
+  /**
+   * The fields that can be accessed per collection, either as allow and deny lists of field paths or as a
+   * predicate that receives the context passed to find, findOne or mutate. Queries that select, filter on,
+   * sort on or write a field that is not allowed are refused. Subfields that are not allowed are removed
+   * from parents that are returned in their entirety, such as with include: true.
+   *
+   * @example
+   * {
+   *   users: { deny: ['password', 'address.ssn'] },
+   *   orders: { allow: ['_id', 'total', 'items'] },
+   *   payments: (field, context) => context.isAdmin || field !== 'cardNumber'
+   * }
+   */
+  fieldPolicies?: FieldPolicies;
+
+  /**
+   * Filters per collection that every query, update and delete on the collection must match, built from
+   * the context passed to find, findOne or mutate. They are combined with the filters of the query using
+   * $and so that they can not be overridden. Inserted documents get the fields the filter matches on and
+   * collections with a filter can not be joined with @lookup.
+   *
+   * @example
+   * {
+   *   orders: context => ({ tenantId: context.tenantId })
+   * }
+   */
+  collectionFilters?: CollectionFilters;
+
+  /**
+   * Limits on how expensive a request to find or findOne can be, such as the number of collections, the depth
+   * of fields, the number of filter operators, regex usage and a cost computed from the limit and fields of
+   * every collection. Requests that exceed them return an error for every limit exceeded instead of querying.
+   *
+   * @example
+   * {
+   *   maxCollections: 3,
+   *   maxDepth: 4,
+   *   maxFilterOperators: 20,
+   *   regex: { users: 'anchored' },
+   *   maxCost: 50000
+   * }
+   */
+  queryLimits?: QueryLimits;
+
+  /**
+   * The maximum time in milliseconds that the queries of find and findOne can run on the server. Collections
+   * whose queries take longer come back as errors while the other collections still return their results.
+   * Defaults to no limit and can be overridden per call.
+   */
+  maxTimeMS?: number;
+
+  /**
+   * The read preference of the queries of find and findOne, such as 'secondary' for reporting traffic.
+   * Defaults to the read preference of the connection.
+   */
+  readPreference?: string;
+
+  /**
+   * The read concern level of the queries of find and findOne, such as 'majority'.
+   * Defaults to the read concern of the connection.
+   */
+  readConcern?: string;
+
+  /**
+   * The collation that the queries of find and findOne filter and sort with, such as
+   * { locale: 'en', strength: 2 } to compare strings without case.
+   */
+  collation?: MongoCollation;
+
+  /**
+   * Read preference, read concern and collation per collection. Overrides the options above for the
+   * collections listed. The @readPreference, @readConcern and @collation directives on a collection
+   * in the query override both.
+   *
+   * @example
+   * {
+   *   reports: { readPreference: 'secondaryPreferred' },
+   *   users: { collation: { locale: 'en', strength: 2 } }
+   * }
+   */
+  collectionReadOptions?: { [collection: string]: ReadOptions };
+
+  /**
+   * How find handles queries that scan a whole collection instead of using an index. When set to 'log' or
+   * 'reject' every query is explained before it runs, which is meant for development rather than production.
+   * Defaults to allow.
+   */
+  collectionScans?: CollectionScanUsage;
+
+  /**
+   * Caches the results of find per collection, keyed on the translated query. Cached results come back
+   * with cached set to true in the _meta of their collection. Results are not cached by default. Writes
+   * through mutate do not clear cached results, so they can be served until their TTL expires.
+   *
+   * @example
+   * {
+   *   ttlMS: 30000,
+   *   collections: { orders: 5000, sessions: 0 }
+   * }
+   */
+  cache?: CacheOptions;
+}
+
+/**
+ * How the queries on a collection read from the server.
+ */
+export interface ReadOptions {
+  readPreference?: string;
+  readConcern?: string;
+  collation?: MongoCollation;
+}
+
+/**
+ * Options for a single call to find or findOne.
+ */
+export interface RequestOptions {
+  /**
+   * The maximum time in milliseconds that the queries can run on the server. Overrides the client's maxTimeMS.
+   */
+  maxTimeMS?: number;
+
+  /**
+   * Signal, such as an AbortSignal, that closes the outstanding cursors once it is aborted, for example when
+   * the HTTP request that the query is for goes away.
+   */
+  signal?: CancellationSignal;
+
+  /**
+   * Set to false to not serve cached results for this call of find. The fresh results are still cached.
+   */
+  cache?: boolean;
 }
 
 /**
@@ -56,7 +261,8 @@ export interface GraphQLMongoClientOptions {
  */
 export interface QueryResult {
   /**
-   * The data that was retrieved. Will have an entry per collection queried under that collection's name.
+   * The data that was retrieved. Will have an entry per collection queried under that collection's name,
+   * or under its alias if one was given.
    *
    * @example
    * If you query for the following:
@@ -95,6 +301,13 @@ export interface QueryResult {
     [collection: string]: {
       limit?: number;
       offset?: number;
+      totalCount?: number;
+      hasMore?: boolean;
+      insertedCount?: number;
+      matchedCount?: number;
+      modifiedCount?: number;
+      deletedCount?: number;
+      cached?: boolean;
     }
   }
 }
@@ -110,6 +323,20 @@ export class MongoGraphQLClient {
   private readonly errorFormatter: ErrorFormatter;
   private readonly defaultLimit: number;
   private readonly maxLimit: number;
+  private readonly includeCount: boolean;
+  private readonly fieldTypes: { [collection: string]: FieldTypes };
+  private readonly serialization: SerializationOptions;
+  private readonly allowDelete: string[];
+  private readonly maxDeleteCount: number;
+  private readonly schema: GraphQLSchema;
+  private readonly fieldPolicies: FieldPolicies;
+  private readonly collectionFilters: CollectionFilters;
+  private readonly queryLimits: QueryLimits;
+  private readonly maxTimeMS: number;
+  private readonly readOptions: ReadOptions;
+  private readonly collectionReadOptions: { [collection: string]: ReadOptions };
+  private readonly collectionScans: CollectionScanUsage;
+  private readonly cache: CacheOptions;
 
   /**
    * Create a new {MongoGraphQLClient}.
@@ -133,6 +360,33 @@ export class MongoGraphQLClient {
     this.maxLimit = typeof options.maxLimit === 'number'
       ? options.maxLimit
       : 10000;
+    this.includeCount = options.includeCount === true;
+    this.fieldTypes = options.fieldTypes || {};
+    this.serialization = options.serialization || {};
+    this.allowDelete = (options.allowDelete || [])
+      .map(collection => collection.toLowerCase());
+    this.maxDeleteCount = typeof options.maxDeleteCount === 'number'
+      ? options.maxDeleteCount
+      : 100;
+    this.schema = options.schema
+      ? buildValidationSchema(options.schema)
+      : null;
+    this.fieldPolicies = options.fieldPolicies || {};
+    this.collectionFilters = options.collectionFilters || {};
+    this.queryLimits = options.queryLimits || {};
+    this.maxTimeMS = typeof options.maxTimeMS === 'number'
+      ? options.maxTimeMS
+      : undefined;
+    this.readOptions = {
+      readPreference: options.readPreference,
+      readConcern: options.readConcern,
+      collation: options.collation,
+    };
+    this.collectionReadOptions = options.collectionReadOptions || {};
+    this.collectionScans = options.collectionScans || 'allow';
+    this.cache = options.cache
+      ? { store: new MemoryCache(), ttlMS: 60000, collections: {}, ...options.cache }
+      : null;
 
     if (this.defaultLimit > this.maxLimit) {
       throw new Error('Default limit must be less than or equal to max limit');
@@ -151,7 +405,21 @@ export class MongoGraphQLClient {
       includeStack: this.includeStack,
       errorFormatter: this.errorFormatter,
       defaultLimit: this.defaultLimit,
-      maxLimit: this.maxLimit
+      maxLimit: this.maxLimit,
+      includeCount: this.includeCount,
+      fieldTypes: this.fieldTypes,
+      serialization: this.serialization,
+      allowDelete: this.allowDelete,
+      maxDeleteCount: this.maxDeleteCount,
+      schema: this.schema,
+      fieldPolicies: this.fieldPolicies,
+      collectionFilters: this.collectionFilters,
+      queryLimits: this.queryLimits,
+      maxTimeMS: this.maxTimeMS,
+      readOptions: this.readOptions,
+      collectionReadOptions: this.collectionReadOptions,
+      collectionScans: this.collectionScans,
+      cache: this.cache
     };
   }
 
@@ -161,59 +429,140 @@ export class MongoGraphQLClient {
    *
    * @param query The query to perform.
    * @param variables Variables to use in the query.
+   * @param context Context of the request, such as the current user. Passed to field policies and collection filters.
+   * @param options Options for this call such as a time limit or a signal to cancel the queries.
    * @return {Promise<QueryResult>} The result of the queries.
    */
-  async find(query: DocumentNode | string, variables?: object): Promise<QueryResult> {
-    // Convert graphql to info about how to execute query
-    const document = parseDocument(query);
-    const queryInfos = graphqlToMongo(document, variables)
-
-    // Default limit on query infos if not passed
-    queryInfos
-      .forEach(info => info.limit = typeof info.limit === 'number' ? info.limit : this.defaultLimit);
+  async find(
+    query: DocumentNode | string,
+    variables?: object,
+    context?: any,
+    options?: RequestOptions
+  ): Promise<QueryResult> {
+    options = options || {};
 
-    // Check collections against whitelist
-    if (this.whitelist.length) {
-      queryInfos
-        .map(q => q.collection)
-        .filter(collection => !this.whitelist.includes(collection.toLowerCase()))
-        .forEach(collection => {
-          throw new Error(`Can not query collection '${collection}'`);
-        });
+    // Convert graphql to info about how to execute query
+    const { queryInfos, errors: translationErrors } = this.translateFind(query, variables, context, options);
+    if (translationErrors) {
+      return { data: null, errors: translationErrors };
     }
 
-    // Enforce max limit
-    queryInfos
-      .filter(info => info.limit > this.maxLimit)
-      .forEach(info => {
-        throw new Error(`Limit of ${info.limit} on collection '${info.collection}' exceeds the maximum of ${this.maxLimit}`);
-      });
+    // Look for collection scans before querying when configured to
+    const scanErrors = await this.checkCollectionScans(queryInfos);
+    if (scanErrors) {
+      return { data: null, errors: scanErrors };
+    }
 
     // Execute the query and get back the results
-    const results = await findMultiple(this.connection, queryInfos);
+    const results = await findMultiple(this.connection, queryInfos, options.signal, this.cacheSettings(options));
 
     // Check for errors
-    const errors = results
-      .filter(result => !!result.error)
-      .map(result => this.errorFormatter(result, this.includeStack));
+    const errors = this.formatErrors(results, queryInfos);
 
     // Build a cohesive return value with all results
     return {
-      data: results.reduce((obj, result) => ({
+      data: results.reduce((obj, result, i) => ({
         ...obj,
-        [result.collection]: result.results
+        [resultKey(queryInfos[i])]: this.toResult(result.results, queryInfos[i], context)
       }), {}),
       errors: !errors.length ? undefined : errors,
-      _meta: queryInfos.reduce((obj, info) => ({
+      _meta: queryInfos.reduce((obj, info, i) => ({
         ...obj,
-        [info.collection]: {
+        [resultKey(info)]: {
           limit: info.limit,
-          skip: info.skip || 0
+          skip: info.skip || 0,
+          ...results[i].meta
         }
       }), {})
     }
   }
 
+  /**
+   * Explains how MongoDB would run the find operation for every collection specified in the passed
+   * GraphQL query instead of running it. The query goes through the same checks as {find}.
+   *
+   * @example
+   * const { data } = await client.explain('{ users { name (eq: "Jane") } }');
+   * if (data.users.collectionScan) {
+   *   console.warn(data.users.warning);
+   * }
+   *
+   * @param query The query to explain.
+   * @param variables Variables to use in the query.
+   * @param context Context of the request, such as the current user. Passed to field policies and collection filters.
+   * @param options Options for this call such as a time limit.
+   * @return {Promise<QueryResult>} An {ExplainSummary} for every collection and any errors.
+   */
+  async explain(
+    query: DocumentNode | string,
+    variables?: object,
+    context?: any,
+    options?: RequestOptions
+  ): Promise<QueryResult> {
+    options = options || {};
+
+    const { queryInfos, errors: translationErrors } = this.translateFind(query, variables, context, options);
+    if (translationErrors) {
+      return { data: null, errors: translationErrors };
+    }
+
+    const results = await Promise.all(queryInfos.map(info => explain(this.connection, info)));
+    const errors = this.formatErrors(results, queryInfos);
+
+    return {
+      data: results.reduce((obj, result, i) => ({
+        ...obj,
+        [resultKey(queryInfos[i])]: result.error ? null : summarizeExplain(result.collection, result.results)
+      }), {}),
+      errors: !errors.length ? undefined : errors,
+    };
+  }
+
+  /**
+   * Translates the passed GraphQL query the same way as {find} and renders the query for every
+   * collection without running it, for example to review or record the queries that a GraphQL
+   * query results in.
+   *
+   * @example
+   * const { data } = client.plan('{ users (limit: 10) { name (eq: "Jane") } }');
+   * // data.users.shell: db.users.find({ "name": { "$eq": "Jane" } }, { "name": 1 }).limit(10)
+   *
+   * @param query The query to render.
+   * @param variables Variables to use in the query.
+   * @param context Context of the request, such as the current user. Passed to field policies and collection filters.
+   * @param options Options for this call such as a time limit.
+   * @return {QueryResult} A {RenderedQuery} for every collection, or the errors that kept the query from running.
+   */
+  plan(
+    query: DocumentNode | string,
+    variables?: object,
+    context?: any,
+    options?: RequestOptions
+  ): QueryResult {
+    const { queryInfos, errors } = this.translateFind(query, variables, context, options || {});
+    if (errors) {
+      return { data: null, errors };
+    }
+
+    // Queries that can not be rendered, such as pages of an invalid cursor, fail on their own like in find
+    const results: GraphQLExecutionResult[] = queryInfos.map(info => {
+      try {
+        return { collection: info.collection, results: renderMongoQuery(info), error: null };
+      } catch (err) {
+        return { collection: info.collection, results: null, error: err };
+      }
+    });
+    const renderErrors = this.formatErrors(results, queryInfos);
+
+    return {
+      data: results.reduce((obj, result, i) => ({
+        ...obj,
+        [resultKey(queryInfos[i])]: result.results
+      }), {}),
+      errors: !renderErrors.length ? undefined : renderErrors,
+    };
+  }
+
   /**
    * Performs a MongoDB findOne operation for exactly one collection and returns
    * just a single document for that collection. Will throw an error if multiple
@@ -221,31 +570,307 @@ export class MongoGraphQLClient {
    *
    * @param query The query to perform,.
    * @param variables Variables to use in the query.
+   * @param context Context of the request, such as the current user. Passed to field policies and collection filters.
+   * @param options Options for this call such as a time limit or a signal to cancel the query.
    * @return {Promise<QueryResult>}
    */
-  async findOne(query: DocumentNode | string, variables?: object): Promise<QueryResult> {
+  async findOne(
+    query: DocumentNode | string,
+    variables?: object,
+    context?: any,
+    options?: RequestOptions
+  ): Promise<QueryResult> {
+    options = options || {};
+
     // Convert graphql to info about how to execute query
-    const document = parseDocument(query);
+    const document = parseQueryDocument(query);
+    const validationErrors = this.validate(document, variables);
+    if (validationErrors) {
+      return { data: null, errors: validationErrors };
+    }
     const queryInfos = graphqlToMongo(document, variables);
+    this.applyFieldTypes(queryInfos);
 
     // Ensure we only have one
     if (!queryInfos || queryInfos.length !== 1) {
       throw new Error(`Must have exactly one query for a findOne operation`);
     }
 
+    // Check collections against whitelist and fields against field policies and refuse queries that are too
+    // expensive. findOne returns a single document.
+    this.checkWhitelist(queryInfos);
+    this.checkFieldPolicies(queryInfos, context);
+    const limitErrors = this.checkLimits(queryInfos.map(info => ({ ...info, limit: 1 })));
+    if (limitErrors) {
+      return { data: null, errors: limitErrors };
+    }
+
+    // Restrict the query to what the context can see, limit how long it can run and set how it reads
+    this.applyCollectionFilters(queryInfos, context);
+    this.applyMaxTime(queryInfos, options);
+    this.applyReadOptions(queryInfos);
+
     // Execute the findOne query and get back the results
-    const result = await findOne(this.connection, queryInfos[0]);
+    const result = await findOne(this.connection, queryInfos[0], options.signal);
 
     // Build a cohesive return value with the results
     return {
       data: result.error
         ? null
-        : { [result.collection]: result.results },
+        : { [resultKey(queryInfos[0])]: this.toResult(result.results, queryInfos[0], context) },
       errors: !result.error
         ? undefined
-        : [this.errorFormatter(result, this.includeStack)]
+        : this.formatErrors([result], queryInfos)
+    };
+  }
+
+  /**
+   * Performs the MongoDB write operations described by the passed GraphQL mutation
+   * and returns the affected documents and any errors as a promise.
+   *
+   * @example
+   * mutation {
+   *   users (insert: [{ firstName: "Jane" }, { firstName: "John" }]) {
+   *     _id
+   *     firstName
+   *   }
+   *   places (set: { visited: true }, many: true) {
+   *     city (eq: "Miami")
+   *   }
+   *   sessions (delete: true, many: true) {
+   *     expired (eq: true)
+   *   }
+   * }
+   *
+   * @param mutation The mutation to perform.
+   * @param variables Variables to use in the mutation.
+   * @param context Context of the request, such as the current user. Passed to field policies and collection filters.
+   * @return {Promise<QueryResult>} The results of the mutations.
+   */
+  async mutate(mutation: DocumentNode | string, variables?: object, context?: any): Promise<QueryResult> {
+    // Convert graphql to info about which writes to perform
+    const document = parseDocument(mutation);
+    if (!isMutationDocument(document)) {
+      throw new Error(`Must pass a mutation to mutate. Use find or findOne for queries`);
+    }
+    const queryInfos = graphqlToMongo(document, variables);
+    this.applyFieldTypes(queryInfos);
+
+    // Check collections against whitelist and fields against field policies
+    this.checkWhitelist(queryInfos);
+    this.checkFieldPolicies(queryInfos, context);
+
+    // Guard against accidentally deleting more than intended
+    queryInfos
+      .filter(info => info.operation === 'delete')
+      .forEach(info => {
+        if (!this.allowDelete.includes(info.collection.toLowerCase())) {
+          throw new Error(`Can not delete from collection '${info.collection}'`);
+        }
+        if (!Object.keys(info.query).length) {
+          throw new Error(`Can not delete from collection '${info.collection}' without a filter`);
+        }
+      });
+
+    // Restrict writes to what the context can see
+    this.applyCollectionFilters(queryInfos, context);
+
+    // Execute the writes one collection at a time so that they happen in order
+    const results: GraphQLExecutionResult[] = [];
+    for (const queryInfo of queryInfos) {
+      results.push(await this.write(queryInfo));
+    }
+
+    // Check for errors
+    const errors = this.formatErrors(results, queryInfos);
+
+    // Build a cohesive return value with all results
+    return {
+      data: results.reduce((obj, result, i) => ({
+        ...obj,
+        [resultKey(queryInfos[i])]: this.toResult(result.results, queryInfos[i], context)
+      }), {}),
+      errors: !errors.length ? undefined : errors,
+      _meta: results.reduce((obj, result, i) => ({
+        ...obj,
+        [resultKey(queryInfos[i])]: result.meta || {}
+      }), {})
+    };
+  }
+
+  // Translates the query of a find and applies the options and checks of the client to it
+  private translateFind(
+    query: DocumentNode | string,
+    variables: object,
+    context: any,
+    options: RequestOptions
+  ): { queryInfos?: MongoQueryInfo[], errors?: any[] } {
+    const document = parseQueryDocument(query);
+    const validationErrors = this.validate(document, variables);
+    if (validationErrors) {
+      return { errors: validationErrors };
+    }
+    const queryInfos = graphqlToMongo(document, variables)
+    this.applyFieldTypes(queryInfos);
+
+    // Default limit on query infos if not passed
+    queryInfos
+      .forEach(info => info.limit = typeof info.limit === 'number' ? info.limit : this.defaultLimit);
+
+    // Count total matches when configured to unless the query opted out
+    queryInfos
+      .forEach(info => info.count = typeof info.count === 'boolean' ? info.count : this.includeCount);
+
+    // Limit how long each query can run and set how it reads
+    this.applyMaxTime(queryInfos, options);
+    this.applyReadOptions(queryInfos);
+
+    // Check collections against whitelist and fields against field policies
+    this.checkWhitelist(queryInfos);
+    this.checkFieldPolicies(queryInfos, context);
+
+    // Refuse queries that are too expensive
+    const limitErrors = this.checkLimits(queryInfos);
+    if (limitErrors) {
+      return { errors: limitErrors };
+    }
+
+    // Restrict queries to what the context can see
+    this.applyCollectionFilters(queryInfos, context);
+
+    // Enforce max limit
+    queryInfos
+      .filter(info => info.limit > this.maxLimit)
+      .forEach(info => {
+        throw new Error(`Limit of ${info.limit} on collection '${info.collection}' exceeds the maximum of ${this.maxLimit}`);
+      });
+
+    return { queryInfos };
+  }
+
+  private write(queryInfo: MongoQueryInfo): Promise<GraphQLExecutionResult> {
+    switch (queryInfo.operation) {
+      case 'insert':
+        return insert(this.connection, queryInfo);
+      case 'update':
+        return update(this.connection, queryInfo);
+      case 'delete':
+        return remove(this.connection, queryInfo, this.maxDeleteCount);
+      default:
+        throw new Error(`Unsupported mutation '${queryInfo.operation}' on collection '${queryInfo.collection}'`);
+    }
+  }
+
+  private validate(document: DocumentNode, variables: object): any[] {
+    if (!this.schema) {
+      return undefined;
+    }
+
+    const errors = validateQuery(this.schema, document, variables);
+    return errors.length
+      ? errors.map(formatError)
+      : undefined;
+  }
+
+  private async checkCollectionScans(queryInfos: MongoQueryInfo[]): Promise<any[]> {
+    if (this.collectionScans === 'allow') {
+      return undefined;
+    }
+
+    // Queries that fail to explain report their error when they run
+    const results = await Promise.all(queryInfos.map(info => explain(this.connection, info)));
+    const warnings = results
+      .filter(result => !result.error)
+      .map(result => summarizeExplain(result.collection, result.results).warning)
+      .filter(warning => !!warning);
+    if (this.collectionScans === 'log') {
+      warnings.forEach(warning => log(warning));
+      return undefined;
+    }
+
+    return warnings.length
+      ? warnings.map(message => ({ message }))
+      : undefined;
+  }
+
+  private cacheSettings(options: RequestOptions): CacheSettings {
+    if (!this.cache) {
+      return undefined;
+    }
+
+    const { store, ttlMS, collections } = this.cache;
+    return {
+      store,
+      ttlMS: collection => typeof collections[collection] === 'number' ? collections[collection] : ttlMS,
+      refresh: options.cache === false,
     };
   }
+
+  private checkLimits(queryInfos: MongoQueryInfo[]): any[] {
+    const errors = checkQueryLimits(queryInfos, this.queryLimits);
+    return errors.length
+      ? errors
+      : undefined;
+  }
+
+  private applyMaxTime(queryInfos: MongoQueryInfo[], options: RequestOptions) {
+    const maxTimeMS = typeof options.maxTimeMS === 'number'
+      ? options.maxTimeMS
+      : this.maxTimeMS;
+    queryInfos
+      .forEach(info => info.maxTimeMS = maxTimeMS);
+  }
+
+  private applyReadOptions(queryInfos: MongoQueryInfo[]) {
+    queryInfos
+      .forEach(info => {
+        const collectionOptions = this.collectionReadOptions[info.collection] || {};
+        info.readPreference = info.readPreference || collectionOptions.readPreference || this.readOptions.readPreference;
+        info.readConcern = info.readConcern || collectionOptions.readConcern || this.readOptions.readConcern;
+        info.collation = info.collation || collectionOptions.collation || this.readOptions.collation;
+      });
+  }
+
+  private applyFieldTypes(queryInfos: MongoQueryInfo[]) {
+    queryInfos
+      .forEach(info => coerceQuery(info.query, this.fieldTypes[info.collection]));
+  }
+
+  private checkFieldPolicies(queryInfos: MongoQueryInfo[], context: any) {
+    queryInfos
+      .forEach(info => checkFieldPolicies(info, this.fieldPolicies, context));
+  }
+
+  private applyCollectionFilters(queryInfos: MongoQueryInfo[], context: any) {
+    queryInfos
+      .forEach(info => applyCollectionFilter(info, this.collectionFilters, context));
+  }
+
+  private toResult(results: any, queryInfo: MongoQueryInfo, context: any): any {
+    return serializeResult(applyFieldPolicies(results, queryInfo, this.fieldPolicies, context), this.serialization);
+  }
+
+  // Results line up with the queries they are for, so the alias of each failed query is known
+  private formatErrors(results: GraphQLExecutionResult[], queryInfos: MongoQueryInfo[]): any[] {
+    return results
+      .map((result, i) => ({ ...result, resultKey: resultKey(queryInfos[i]) }))
+      .filter(result => !!result.error)
+      .map(result => this.errorFormatter(result, this.includeStack));
+  }
+
+  private checkWhitelist(queryInfos: MongoQueryInfo[]) {
+    if (!this.whitelist.length) {
+      return;
+    }
+
+    // Joined collections are read as well, so they have to be whitelisted too
+    queryInfos
+      .reduce((collections, q) => [...collections, q.collection, ...(q.lookups || []).map(lookup => lookup.from)], [])
+      .filter(collection => !this.whitelist.includes(collection.toLowerCase()))
+      .forEach(collection => {
+        throw new Error(`Can not query collection '${collection}'`);
+      });
+  }
 }
 
 /**
@@ -256,6 +881,7 @@ export class MongoGraphQLClient {
 export function defaultErrorFormatter(result: GraphQLExecutionResult, includeStack: boolean) {
   return {
     collection: result.collection,
+    resultKey: result.resultKey || result.collection,
     message: result.error.message || result.error,
     stack: includeStack === true
       ? (result.error.stack || '').split('\n')
@@ -263,6 +889,15 @@ export function defaultErrorFormatter(result: GraphQLExecutionResult, includeSta
   }
 }
 
+function parseQueryDocument(query: DocumentNode | string): DocumentNode {
+  const document = parseDocument(query);
+  if (isMutationDocument(document)) {
+    throw new Error(`Mutations must be performed using mutate`);
+  }
+
+  return document;
+}
+
 function parseDocument(query: DocumentNode | string): DocumentNode {
   if (typeof query !== 'string' && !query) {
     throw new Error('Must pass either document or string');
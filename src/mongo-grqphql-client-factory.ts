@@ -18,7 +18,8 @@ export const graphqlClient = {
    * It will use the native node mongodb driver to connect.
    *
    * @param mongoUri The mongodb connection string URI.
-   * @param options Mongo client options and options for changing the {MongoGraphQLClient}.
+   * @param options Mongo client options and options for changing the {MongoGraphQLClient}. Options of the
+   * {MongoGraphQLClient}, such as readConcern, are only applied to its queries and not to the connection.
    * @return {Promise<MongoGraphQLClient>} A promise resolved once connection to MongoDB
    * has been established.
    */
@@ -30,7 +31,39 @@ export const graphqlClient = {
       throw new Error(`Must pass a valid MongoDB connection string`);
     }
 
-    const connection = await MongoClient.connect(mongoUri, options);
+    const connection = await MongoClient.connect(mongoUri, connectionOptions(options || {}));
     return new MongoGraphQLClient(connection, options);
   },
 };
+
+// Some of these share a name with driver options but take other values, such as readConcern: 'majority'.
+// Record makes every option of the client required here, so a new option fails to compile until it is listed.
+const clientOptions: Record<keyof GraphQLMongoClientOptions, true> = {
+  whitelist: true,
+  includeStack: true,
+  formatError: true,
+  defaultLimit: true,
+  maxLimit: true,
+  includeCount: true,
+  fieldTypes: true,
+  serialization: true,
+  allowDelete: true,
+  maxDeleteCount: true,
+  schema: true,
+  fieldPolicies: true,
+  collectionFilters: true,
+  queryLimits: true,
+  maxTimeMS: true,
+  readPreference: true,
+  readConcern: true,
+  collation: true,
+  collectionReadOptions: true,
+  collectionScans: true,
+  cache: true,
+};
+
+function connectionOptions(options: GraphQLMongoClientOptions & MongoClientOptions): MongoClientOptions {
+  return Object.keys(options)
+    .filter(name => !clientOptions.hasOwnProperty(name))
+    .reduce((result, name) => ({ ...result, [name]: (<any>options)[name] }), {});
+}
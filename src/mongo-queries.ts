@@ -1,10 +1,14 @@
-import * as util from 'util';
-import { MongoQueryInfo } from './graphql-to-mongo';
-import { Db } from 'mongodb';
+import { MongoAggregateInfo, MongoLookupInfo, MongoQueryInfo } from './graphql-to-mongo';
+import { AggregationCursor, Collection, Cursor, Db, DbCollectionOptions, FindOneOptions, MongoCountPreferences } from 'mongodb';
 import { log } from './log';
+import { cursorFilter, cursorFor, cursorSort } from './cursors';
+import { renderShellValue } from './shell-values';
+import { cacheKey, CacheSettings } from './query-cache';
 
-// Helper to print args to mongodb for debug purposes
-const json = (args: any) => util.inspect(args, { depth: Infinity, breakLength: Infinity, colors: true });
+const { keys } = Object;
+
+// Helper to print args to mongodb for debug purposes in a form that can be pasted into the mongo shell
+const json = (args: any) => renderShellValue(args);
 
 /**
  * The result of executing a GraphQL query against MongoDB.
@@ -15,6 +19,12 @@ export interface GraphQLExecutionResult {
    */
   collection: string;
 
+  /**
+   * The key that the results are returned under, which is the alias of the query if it has one.
+   * Set by the {MongoGraphQLClient} before errors are formatted.
+   */
+  resultKey?: string;
+
   /**
    * The results of the query. Will be a single result for findOne and an array for find.
    */
@@ -24,18 +34,46 @@ export interface GraphQLExecutionResult {
    * Any error that occurred as part of executing the query.
    */
   error: Error;
+
+  /**
+   * Counts reported by write operations such as the number of documents inserted or modified.
+   */
+  meta?: {
+    [key: string]: number | boolean;
+  };
 }
 
+/**
+ * Signal that cancels the queries of a request once it is aborted, such as an AbortSignal.
+ */
+export interface CancellationSignal {
+  readonly aborted: boolean;
+  addEventListener(type: 'abort', listener: () => void): void;
+  removeEventListener(type: 'abort', listener: () => void): void;
+}
+
+// Error code of queries that exceeded their maxTimeMS
+const ExceededTimeLimit = 50;
+
 /**
  * Executes queries against multiple collections and returns all of their results.
  *
  * @param connection The mongodb connection.
  * @param queryInfos An array of {MongoQueryInfo} to execute.
+ * @param signal Signal that closes the outstanding cursors when aborted.
+ * @param cache Where to serve cached results from and cache fresh results in. Results are not cached without it.
  * @return {Promise<GraphQLExecutionResult[]>} The results of running all of the queries.
  */
-export async function findMultiple(connection: Db, queryInfos: MongoQueryInfo[]): Promise<GraphQLExecutionResult[]> {
+export async function findMultiple(
+  connection: Db,
+  queryInfos: MongoQueryInfo[],
+  signal?: CancellationSignal,
+  cache?: CacheSettings
+): Promise<GraphQLExecutionResult[]> {
   return await Promise.all(
-    queryInfos.map(query => findAll(connection, query))
+    queryInfos.map(query => cache && cache.ttlMS(query.collection) > 0
+      ? findCached(connection, query, signal, cache)
+      : findAll(connection, query, signal))
   );
 }
 
@@ -43,17 +81,32 @@ export async function findMultiple(connection: Db, queryInfos: MongoQueryInfo[])
  * Executes a single findOne query for the passed {MongoQueryInfo}.
  * @param connection The mongodb connection.
  * @param queryInfo The query {MongoQueryInfo} to execute.
+ * @param signal Signal that stops waiting for the query when aborted.
  * @return {Promise<GraphQLExecutionResult>} The results of running the query.
  */
-export async function findOne(connection: Db, queryInfo: MongoQueryInfo): Promise<GraphQLExecutionResult> {
-  const collection = await connection.collection(queryInfo.collection);
+export async function findOne(
+  connection: Db,
+  queryInfo: MongoQueryInfo,
+  signal?: CancellationSignal
+): Promise<GraphQLExecutionResult> {
+  const collection = readCollection(connection, queryInfo);
   const collectionName = collection.collectionName;
 
   try {
-    log(`Executing ${collectionName}.findOne(${json(queryInfo.query)}, ${json(queryInfo.fields)})`);
-    const document = await collection.findOne<object>(queryInfo.query, {
-      fields: queryInfo.fields,
-    });
+    let document: object;
+    if (usesPipeline(queryInfo)) {
+      const pipeline = buildPipeline({ ...queryInfo, limit: 1 });
+      log(`Executing ${collectionName}.aggregate(${json(pipeline)})`);
+      [document = null] = await toArray(collection.aggregate<object>(pipeline, queryOptions(queryInfo)), queryInfo, signal);
+    } else {
+      log(`Executing ${collectionName}.findOne(${json(queryInfo.query)}, ${json(queryInfo.fields)})`);
+      const options: FindOneOptions = {
+        fields: queryInfo.fields,
+        ...queryOptions(queryInfo),
+      };
+      document = await abortable(collection.findOne<object>(queryInfo.query, options), queryInfo, signal);
+    }
+
     return {
       collection: collectionName,
       results: document,
@@ -63,36 +116,599 @@ export async function findOne(connection: Db, queryInfo: MongoQueryInfo): Promis
     return {
       collection: collectionName,
       results: null,
+      error: queryError(err, queryInfo),
+    };
+  }
+}
+
+/**
+ * Executes a find query for the passed {MongoQueryInfo} and returns all of the documents in its page.
+ *
+ * @param connection The mongodb connection.
+ * @param queryInfo The query {MongoQueryInfo} to execute.
+ * @param signal Signal that closes the outstanding cursors when aborted.
+ * @return {Promise<GraphQLExecutionResult>} The results of running the query.
+ */
+export async function findAll(
+  connection: Db,
+  queryInfo: MongoQueryInfo,
+  signal?: CancellationSignal
+): Promise<GraphQLExecutionResult> {
+  if (queryInfo.cursor) {
+    return await findPage(connection, queryInfo, signal);
+  }
+
+  const collection = readCollection(connection, queryInfo);
+  const collectionName = collection.collectionName;
+
+  try {
+    // Count the total matches alongside the page of results if asked to
+    const [results, totalCount] = await Promise.all([
+      findDocuments(collection, queryInfo, signal),
+      queryInfo.count ? countDocuments(collection, queryInfo, signal) : Promise.resolve<number>(null),
+    ]);
+
+    return {
+      collection: collectionName,
+      results: results,
+      error: null,
+      meta: !queryInfo.count ? undefined : {
+        totalCount,
+        hasMore: (queryInfo.skip || 0) + results.length < totalCount,
+      },
+    };
+  } catch (err) {
+    return {
+      collection: collectionName,
+      results: [],
+      error: queryError(err, queryInfo),
+    };
+  }
+}
+
+/**
+ * Explains how MongoDB runs the find query for the passed {MongoQueryInfo} instead of running it.
+ *
+ * @param connection The mongodb connection.
+ * @param queryInfo The query {MongoQueryInfo} to explain.
+ * @return {Promise<GraphQLExecutionResult>} The explain output of the query as its results.
+ */
+export async function explain(connection: Db, queryInfo: MongoQueryInfo): Promise<GraphQLExecutionResult> {
+  const collection = readCollection(connection, queryInfo);
+  const collectionName = collection.collectionName;
+
+  try {
+    log(`Explaining query on ${collectionName}`);
+    const cursor = documentCursor(collection, queryInfo);
+    if (typeof queryInfo.maxTimeMS === 'number') {
+      (<Cursor<object>>cursor).maxTimeMS(queryInfo.maxTimeMS);
+    }
+
+    return {
+      collection: collectionName,
+      results: await cursor.explain(),
+      error: null,
+    };
+  } catch (err) {
+    return {
+      collection: collectionName,
+      results: null,
+      error: queryError(err, queryInfo),
+    };
+  }
+}
+
+// Serves the results of a query from the cache when they are there, and runs and caches the query otherwise
+async function findCached(
+  connection: Db,
+  queryInfo: MongoQueryInfo,
+  signal: CancellationSignal,
+  cache: CacheSettings
+): Promise<GraphQLExecutionResult> {
+  const { store, refresh } = cache;
+  const key = cacheKey(queryInfo);
+
+  // A failing cache should not fail the query, so its errors are only logged
+  try {
+    if (refresh) {
+      await store.delete(key);
+    } else {
+      const cached = await store.get(key);
+      if (cached) {
+        log(`Serving ${queryInfo.collection} from cache`);
+        return { ...cached, error: null, meta: { ...cached.meta, cached: true } };
+      }
+    }
+  } catch (err) {
+    log(`Failed to read cached results of ${queryInfo.collection}`, err);
+  }
+
+  const result = await findAll(connection, queryInfo, signal);
+  if (!result.error) {
+    try {
+      const { collection, results, meta } = result;
+      await store.set(key, { collection, results, meta }, cache.ttlMS(queryInfo.collection));
+    } catch (err) {
+      log(`Failed to cache results of ${queryInfo.collection}`, err);
+    }
+  }
+
+  return result;
+}
+
+async function findDocuments(
+  collection: Collection<any>,
+  queryInfo: MongoQueryInfo,
+  signal: CancellationSignal
+): Promise<object[]> {
+  return await toArray(documentCursor(collection, queryInfo), queryInfo, signal);
+}
+
+// The cursor over the documents of a query, which aggregates when it joins or groups and finds otherwise
+function documentCursor(collection: Collection<any>, queryInfo: MongoQueryInfo): Cursor<object> | AggregationCursor<object> {
+  const collectionName = collection.collectionName;
+  const hasSort = keys(queryInfo.sort).length > 0;
+
+  if (usesPipeline(queryInfo)) {
+    const pipeline = buildPipeline(queryInfo);
+    log(`Executing ${collectionName}.aggregate(${json(pipeline)})`);
+    return collection.aggregate<object>(pipeline, queryOptions(queryInfo));
+  }
+
+  log(
+    `Executing ${collectionName}.find(${json(queryInfo.query)}, ${json(queryInfo.fields)})` +
+    (!hasSort ? '' : `.sort(${json(queryInfo.sort)})`)
+  );
+  const cursor = collection.find<object>(
+    queryInfo.query,
+    queryInfo.fields,
+    queryInfo.skip,
+    queryInfo.limit
+  );
+  if (queryInfo.collation) {
+    // The driver typings are missing collation
+    (<any>cursor).collation(queryInfo.collation);
+  }
+
+  return hasSort
+    ? cursor.sort(queryInfo.sort)
+    : cursor;
+}
+
+async function countDocuments(
+  collection: Collection<any>,
+  queryInfo: MongoQueryInfo,
+  signal: CancellationSignal
+): Promise<number> {
+  const collectionName = collection.collectionName;
+
+  if (usesPipeline(queryInfo)) {
+    const pipeline = [
+      ...buildPipeline({ ...queryInfo, sort: {}, skip: undefined, limit: undefined }),
+      { $count: 'totalCount' },
+    ];
+    log(`Executing ${collectionName}.aggregate(${json(pipeline)})`);
+    const [result = { totalCount: 0 }] = await toArray(collection.aggregate<any>(pipeline, queryOptions(queryInfo)), queryInfo, signal);
+    return result.totalCount;
+  }
+
+  log(`Executing ${collectionName}.count(${json(queryInfo.query)})`);
+  const options: MongoCountPreferences = queryOptions(queryInfo);
+  return await abortable(collection.count(queryInfo.query, options), queryInfo, signal);
+}
+
+// Gets the collection with the read preference and read concern of the query
+function readCollection(connection: Db, queryInfo: MongoQueryInfo): Collection<any> {
+  const options: DbCollectionOptions = {
+    ...(queryInfo.readPreference ? { readPreference: queryInfo.readPreference } : {}),
+    ...(queryInfo.readConcern ? { readConcern: { level: queryInfo.readConcern } } : {}),
+  };
+
+  // The driver typings are missing the overload without a callback
+  return (<any>connection).collection(queryInfo.collection, options);
+}
+
+// Options for findOne, count and aggregate. The driver typings are missing maxTimeMS and collation for them.
+function queryOptions(queryInfo: MongoQueryInfo): any {
+  return {
+    ...(typeof queryInfo.maxTimeMS === 'number' ? { maxTimeMS: queryInfo.maxTimeMS } : {}),
+    ...(queryInfo.collation ? { collation: queryInfo.collation } : {}),
+  };
+}
+
+// Runs a cursor to completion within the time limit of the query, closing it if the signal is aborted first
+function toArray<T>(
+  cursor: Cursor<T> | AggregationCursor<T>,
+  queryInfo: MongoQueryInfo,
+  signal: CancellationSignal
+): Promise<T[]> {
+  if (typeof queryInfo.maxTimeMS === 'number') {
+    (<Cursor<T>>cursor).maxTimeMS(queryInfo.maxTimeMS);
+  }
+
+  return abortable((<Cursor<T>>cursor).toArray(), queryInfo, signal, () => {
+    (<Cursor<T>>cursor).close().catch(err => log(`Failed to close cursor on ${queryInfo.collection}`, err));
+  });
+}
+
+function abortable<T>(
+  promise: Promise<T>,
+  queryInfo: MongoQueryInfo,
+  signal: CancellationSignal,
+  onAbort = () => { /* nothing to clean up */ }
+): Promise<T> {
+  if (!signal) {
+    return promise;
+  }
+
+  return new Promise<T>((resolve, reject) => {
+    const abort = () => {
+      onAbort();
+      reject(new Error(`Query on collection '${queryInfo.collection}' was aborted`));
+    };
+    if (signal.aborted) {
+      return abort();
+    }
+
+    signal.addEventListener('abort', abort);
+    promise.then(
+      result => {
+        signal.removeEventListener('abort', abort);
+        resolve(result);
+      },
+      err => {
+        signal.removeEventListener('abort', abort);
+        reject(err);
+      }
+    );
+  });
+}
+
+function queryError(err: any, queryInfo: MongoQueryInfo): Error {
+  return err && err.code === ExceededTimeLimit
+    ? new Error(`Query on collection '${queryInfo.collection}' exceeded the time limit of ${queryInfo.maxTimeMS}ms`)
+    : err;
+}
+
+/**
+ * Executes a query that uses cursor based pagination and returns a connection with an edge
+ * for every document and info about the surrounding pages.
+ *
+ * @param connection The mongodb connection.
+ * @param queryInfo The {MongoQueryInfo} to execute. Its cursor describes the page to fetch.
+ * @param signal Signal that closes the outstanding cursors when aborted.
+ * @return {Promise<GraphQLExecutionResult>} The connection for the page.
+ */
+async function findPage(
+  connection: Db,
+  queryInfo: MongoQueryInfo,
+  signal: CancellationSignal
+): Promise<GraphQLExecutionResult> {
+  const { cursor, limit } = queryInfo;
+  const sort = cursorSort(fieldSort(queryInfo));
+
+  let page: MongoQueryInfo;
+  try {
+    page = pageQuery(queryInfo);
+  } catch (err) {
+    return {
+      collection: queryInfo.collection,
+      results: null,
       error: err,
     };
   }
+
+  const hasLimit = typeof limit === 'number';
+  const [result, count] = await Promise.all([
+    findAll(connection, page, signal),
+    countPage(connection, queryInfo, signal),
+  ]);
+  if (result.error || count.error) {
+    return { ...result, results: null, error: result.error || count.error };
+  }
+
+  const hasMore = hasLimit && result.results.length > limit;
+  const documents: any[] = hasMore ? result.results.slice(0, limit) : result.results;
+  if (cursor.backward) {
+    documents.reverse();
+  }
+
+  const edges = documents.map(document => ({
+    cursor: cursorFor(document, sort),
+    node: document,
+  }));
+
+  return {
+    collection: result.collection,
+    results: {
+      edges,
+      pageInfo: {
+        hasNextPage: cursor.backward ? !!cursor.before : hasMore,
+        hasPreviousPage: cursor.backward ? hasMore : !!cursor.after,
+        startCursor: edges.length ? edges[0].cursor : null,
+        endCursor: edges.length ? edges[edges.length - 1].cursor : null,
+      },
+    },
+    error: null,
+    meta: !queryInfo.count ? undefined : {
+      totalCount: count.totalCount,
+      hasMore: cursor.backward ? !!cursor.before : hasMore,
+    },
+  };
+}
+
+/**
+ * Builds the query that fetches the documents of a page for a {MongoQueryInfo} that uses cursor based
+ * pagination. One extra document is fetched to find out whether there is another page.
+ *
+ * @param queryInfo The {MongoQueryInfo} whose cursor describes the page to fetch.
+ * @return {MongoQueryInfo} The query for the documents of the page, without a cursor.
+ */
+export function pageQuery(queryInfo: MongoQueryInfo): MongoQueryInfo {
+  const { cursor, limit } = queryInfo;
+  if (typeof limit === 'number' && !(Number.isInteger(limit) && limit >= 0)) {
+    throw new Error(`Page size of ${limit} on collection '${queryInfo.collection}' must be a non-negative integer`);
+  }
+  const sort = cursorSort(fieldSort(queryInfo));
+  const filters = [
+    ...(cursor.after ? [cursorFilter(cursor.after, sort)] : []),
+    ...(cursor.before ? [cursorFilter(cursor.before, sort, true)] : []),
+  ];
+
+  return {
+    ...queryInfo,
+    cursor: undefined,
+    count: false,
+    query: !filters.length ? queryInfo.query : { $and: [queryInfo.query, ...filters] },
+    sort: cursorSort(fieldSort(queryInfo), cursor.backward),
+    limit: typeof limit === 'number' ? limit + 1 : limit,
+  };
+}
+
+// Sorting by text score can not be combined with cursors, so every sort of a page is on a field
+function fieldSort(queryInfo: MongoQueryInfo): { [field: string]: number } {
+  return <{ [field: string]: number }>queryInfo.sort;
+}
+
+// The total count of a page ignores the cursors so that it stays the same across pages
+async function countPage(
+  connection: Db,
+  queryInfo: MongoQueryInfo,
+  signal: CancellationSignal
+): Promise<{ totalCount?: number, error?: Error }> {
+  if (!queryInfo.count) {
+    return {};
+  }
+
+  try {
+    const collection = readCollection(connection, queryInfo);
+    return { totalCount: await countDocuments(collection, queryInfo, signal) };
+  } catch (err) {
+    return { error: queryError(err, queryInfo) };
+  }
+}
+
+/**
+ * Builds the aggregation pipeline used in place of a find when the {MongoQueryInfo} joins other
+ * collections or groups documents. Filtering, sorting and paging happen before the joins whenever
+ * they do not depend on joined fields. Filters on joined fields return the documents with matching
+ * joined documents, and only the matching joined documents with them.
+ *
+ * @param queryInfo The {MongoQueryInfo} to build the pipeline for.
+ * @return {object[]} The aggregation pipeline stages.
+ */
+export function buildPipeline(queryInfo: MongoQueryInfo): object[] {
+  const lookups = queryInfo.lookups || [];
+  const isJoined = (field: string) => lookups.some(lookup => isJoinedTo(lookup, field));
+
+  // Logical operators need the joined documents when any of their conditions does. A text search does not.
+  const needsJoin = (query: any) => filtersOn(query, isJoined);
+
+  // Split filters on the collection itself from those that need the joined documents. Mandatory filters
+  // wrap the query in $and, so its conditions are split one by one to keep them and any text search first.
+  const baseQuery: any = {};
+  const joinedQuery: any = {};
+  keys(queryInfo.query)
+    .forEach(key => {
+      const value = queryInfo.query[key];
+      if (key !== '$and' || !Array.isArray(value)) {
+        (needsJoin({ [key]: value }) ? joinedQuery : baseQuery)[key] = value;
+        return;
+      }
+
+      value.forEach(condition => {
+        const target = needsJoin(condition) ? joinedQuery : baseQuery;
+        target.$and = [...(target.$and || []), condition];
+      });
+    });
+
+  const filters = (query: object) => keys(query).length ? [{ $match: query }] : [];
+  const pageStages = (sort: object) => [
+    ...(keys(sort).length ? [{ $sort: sort }] : []),
+    ...(queryInfo.skip ? [{ $skip: queryInfo.skip }] : []),
+    ...(typeof queryInfo.limit === 'number' ? [{ $limit: queryInfo.limit }] : []),
+  ];
+  const paging = pageStages(queryInfo.sort);
+  const pageBeforeJoin = !keys(joinedQuery).length && !keys(queryInfo.sort).some(isJoined);
+  const joins = lookups.map(({ from, localField, foreignField, as }) => ({
+    $lookup: { from, localField, foreignField, as }
+  }));
+
+  // Paging applies to the groups of an aggregate rather than to the documents
+  if (queryInfo.aggregate) {
+    return [
+      ...filters(baseQuery),
+      ...joins,
+      ...filters(joinedQuery),
+      ...groupStages(queryInfo.aggregate),
+      ...paging,
+    ];
+  }
+
+  // Only the joined documents that match the conditions on their fields are returned
+  const joinedConditions = keys(joinedQuery)
+    .reduce((conditions, key) => [
+      ...conditions,
+      ...(key === '$and' && Array.isArray(joinedQuery.$and) ? joinedQuery.$and : [{ [key]: joinedQuery[key] }])
+    ], []);
+  const parentFields = [...keys(queryInfo.fields), ...keys(queryInfo.sort)]
+    .map(field => field.split('.')[0])
+    .filter((field, i, fields) => field !== '_id' && fields.indexOf(field) === i);
+
+  // Joined documents that are not returned do not have to be filtered
+  const isReturned = (lookup: MongoLookupInfo) => keys(queryInfo.fields)
+    .some(field => isJoinedTo(lookup, field) || lookup.as.startsWith(`${field}.`));
+  const joinedFilters = lookups
+    .filter(isReturned)
+    .map(lookup => ({
+      lookup,
+      conditions: joinedConditions.filter(condition => filtersOn(condition, field => isJoinedTo(lookup, field)))
+    }))
+    .filter(({ conditions }) => conditions.length)
+    .reduce((stages, { lookup, conditions }) => [...stages, ...joinedFilterStages(lookup, conditions, parentFields)], []);
+
+  if (!joinedFilters.length) {
+    return [
+      ...filters(baseQuery),
+      ...(pageBeforeJoin ? paging : []),
+      ...joins,
+      ...filters(joinedQuery),
+      ...(pageBeforeJoin ? [] : paging),
+      ...(keys(queryInfo.fields).length ? [{ $project: queryInfo.fields }] : []),
+    ];
+  }
+
+  // Grouping the joined documents back together loses the order and the text score of the documents, so
+  // scores are stored in their fields beforehand and the documents are sorted again afterwards
+  const scores = keys(queryInfo.fields).filter(field => isTextScore(queryInfo.fields[field]));
+  const withStoredScores = (spec: any, stored: number) => keys(spec)
+    .reduce((result, field) => ({ ...result, [field]: isTextScore(spec[field]) ? stored : spec[field] }), {});
+  return [
+    ...filters(baseQuery),
+    ...joins,
+    ...filters(joinedQuery),
+    ...(scores.length ? [{ $addFields: scores.reduce((add, field) => ({ ...add, [field]: queryInfo.fields[field] }), {}) }] : []),
+    ...joinedFilters,
+    ...pageStages(keys(queryInfo.sort).length ? withStoredScores(queryInfo.sort, -1) : { _id: 1 }),
+    { $project: withStoredScores(queryInfo.fields, 1) },
+  ];
+}
+
+function isJoinedTo(lookup: MongoLookupInfo, field: string): boolean {
+  return field === lookup.as || field.startsWith(`${lookup.as}.`);
+}
+
+function isTextScore(value: any): boolean {
+  return !!value && typeof value === 'object' && value.$meta === 'textScore';
+}
+
+// Whether the filter has a condition on one of the fields, including the conditions of logical operators
+function filtersOn(query: any, isField: (field: string) => boolean): boolean {
+  return keys(query || {})
+    .some(key => key.startsWith('$')
+      ? Array.isArray(query[key]) && query[key].some((condition: any) => filtersOn(condition, isField))
+      : isField(key));
+}
+
+// Unwinds the joined documents to match them one by one and groups the matching ones back into an array.
+// Group names can not contain dots, so joins into nested fields are grouped under a flattened name first.
+function joinedFilterStages(lookup: MongoLookupInfo, conditions: object[], parentFields: string[]): object[] {
+  const { as } = lookup;
+  const joined = as.replace(/\./g, '_');
+  return [
+    { $unwind: { path: `$${as}`, preserveNullAndEmptyArrays: true } },
+    { $match: conditions.length === 1 ? conditions[0] : { $and: conditions } },
+    {
+      $group: {
+        _id: '$_id',
+        ...parentFields
+          .filter(field => field !== joined)
+          .reduce((group, field) => ({ ...group, [field]: { $first: `$${field}` } }), {}),
+        [joined]: { $push: `$${as}` },
+      }
+    },
+    ...(joined === as ? [] : [{ $addFields: { [as]: `$${joined}` } }]),
+  ];
+}
+
+function groupStages(aggregate: MongoAggregateInfo): object[] {
+  // Group and accumulator names can not contain dots, so they are flattened and expanded back afterwards
+  const key = (field: string) => field.replace(/\./g, '_');
+  const accumulators = keys(aggregate.accumulators);
+
+  return [
+    {
+      $group: {
+        _id: !aggregate.groupBy.length
+          ? null
+          : aggregate.groupBy.reduce((id, field) => ({ ...id, [key(field)]: `$${field}` }), {}),
+        ...accumulators.reduce((group, field) => ({
+          ...group,
+          [key(field)]: aggregate.accumulators[field] === 'count'
+            ? { $sum: 1 }
+            : { [`$${aggregate.accumulators[field]}`]: `$${field}` }
+        }), {})
+      }
+    },
+    {
+      $project: {
+        _id: 0,
+        ...aggregate.groupBy.reduce((project, field) => ({ ...project, [field]: `$_id.${key(field)}` }), {}),
+        ...accumulators.reduce((project, field) => ({ ...project, [field]: `$${key(field)}` }), {}),
+      }
+    },
+  ];
+}
+
+/**
+ * Whether the {MongoQueryInfo} runs as an aggregation pipeline rather than a find.
+ *
+ * @param queryInfo The {MongoQueryInfo} to check.
+ * @return True when it joins other collections or groups documents.
+ */
+export function usesPipeline(queryInfo: MongoQueryInfo): boolean {
+  return !!queryInfo.aggregate || (!!queryInfo.lookups && queryInfo.lookups.length > 0);
 }
 
-export async function findAll(connection: Db, queryInfo: MongoQueryInfo): Promise<GraphQLExecutionResult> {
+/**
+ * Executes an insertOne or insertMany for the passed {MongoQueryInfo} and returns the inserted
+ * documents projected using the query's fields.
+ *
+ * @param connection The mongodb connection.
+ * @param queryInfo The insert {MongoQueryInfo} to execute.
+ * @return {Promise<GraphQLExecutionResult>} The inserted documents.
+ */
+export async function insert(connection: Db, queryInfo: MongoQueryInfo): Promise<GraphQLExecutionResult> {
   const collection = await connection.collection(queryInfo.collection);
   const collectionName = collection.collectionName;
-  const hasSort = Object.keys(queryInfo.sort).length > 0;
+  const documents = Array.isArray(queryInfo.insert)
+    ? queryInfo.insert
+    : [queryInfo.insert];
 
   try {
-    log(
-      `Executing ${collectionName}.find(${json(queryInfo.query)}, ${json(queryInfo.fields)})` +
-      (!hasSort ? '' : `.sort(${json(queryInfo.sort)})`)
-    );
-    const cursor = collection.find<object>(
-      queryInfo.query,
-      queryInfo.fields,
-      queryInfo.skip,
-      queryInfo.limit
-    );
+    let inserted: any[];
+    if (documents.length === 1) {
+      log(`Executing ${collectionName}.insertOne(${json(documents[0])})`);
+      inserted = (await collection.insertOne(documents[0])).ops;
+    } else {
+      log(`Executing ${collectionName}.insertMany(${json(documents)})`);
+      inserted = (await collection.insertMany(documents)).ops;
+    }
 
-    const results = hasSort
-      ? await cursor.sort(queryInfo.sort).toArray()
-      : await cursor.toArray();
+    // Read the documents back so that they are projected the same way a find would
+    const ids = inserted.map(doc => doc._id);
+    const results = await collection
+      .find<any>({ _id: { $in: ids } }, queryInfo.fields)
+      .toArray();
+    const order = ids.map(id => String(id));
 
     return {
       collection: collectionName,
-      results: results,
+      results: results.sort((a, b) => order.indexOf(String(a._id)) - order.indexOf(String(b._id))),
       error: null,
+      meta: {
+        insertedCount: inserted.length,
+      },
     };
   } catch (err) {
     return {
@@ -102,3 +718,86 @@ export async function findAll(connection: Db, queryInfo: MongoQueryInfo): Promis
     };
   }
 }
+
+/**
+ * Executes an updateOne, or an updateMany if {MongoQueryInfo.many} is set, using the query of the
+ * passed {MongoQueryInfo} as the filter.
+ *
+ * @param connection The mongodb connection.
+ * @param queryInfo The update {MongoQueryInfo} to execute.
+ * @return {Promise<GraphQLExecutionResult>} The matched and modified counts of the update.
+ */
+export async function update(connection: Db, queryInfo: MongoQueryInfo): Promise<GraphQLExecutionResult> {
+  const collection = await connection.collection(queryInfo.collection);
+  const collectionName = collection.collectionName;
+  const method = queryInfo.many ? 'updateMany' : 'updateOne';
+
+  try {
+    log(`Executing ${collectionName}.${method}(${json(queryInfo.query)}, ${json(queryInfo.update)})`);
+    const result = queryInfo.many
+      ? await collection.updateMany(queryInfo.query, queryInfo.update)
+      : await collection.updateOne(queryInfo.query, queryInfo.update);
+    return {
+      collection: collectionName,
+      results: null,
+      error: null,
+      meta: {
+        matchedCount: result.matchedCount,
+        modifiedCount: result.modifiedCount,
+      },
+    };
+  } catch (err) {
+    return {
+      collection: collectionName,
+      results: null,
+      error: err,
+    };
+  }
+}
+
+/**
+ * Executes a deleteOne, or a deleteMany if {MongoQueryInfo.many} is set, using the query of the
+ * passed {MongoQueryInfo} as the filter. The matching documents are counted first and nothing is
+ * deleted if more than {maxCount} documents would be affected.
+ *
+ * @param connection The mongodb connection.
+ * @param queryInfo The delete {MongoQueryInfo} to execute.
+ * @param maxCount The maximum number of documents that may be deleted.
+ * @return {Promise<GraphQLExecutionResult>} The deleted count of the delete.
+ */
+export async function remove(connection: Db, queryInfo: MongoQueryInfo, maxCount: number): Promise<GraphQLExecutionResult> {
+  const collection = await connection.collection(queryInfo.collection);
+  const collectionName = collection.collectionName;
+  const method = queryInfo.many ? 'deleteMany' : 'deleteOne';
+
+  try {
+    if (queryInfo.many) {
+      log(`Executing ${collectionName}.count(${json(queryInfo.query)})`);
+      const count = await collection.count(queryInfo.query);
+      if (count > maxCount) {
+        throw new Error(
+          `Delete on collection '${collectionName}' would affect ${count} documents which exceeds the maximum of ${maxCount}`
+        );
+      }
+    }
+
+    log(`Executing ${collectionName}.${method}(${json(queryInfo.query)})`);
+    const result = queryInfo.many
+      ? await collection.deleteMany(queryInfo.query)
+      : await collection.deleteOne(queryInfo.query);
+    return {
+      collection: collectionName,
+      results: null,
+      error: null,
+      meta: {
+        deletedCount: result.deletedCount,
+      },
+    };
+  } catch (err) {
+    return {
+      collection: collectionName,
+      results: null,
+      error: err,
+    };
+  }
+}
@@ -0,0 +1,154 @@
+import { MongoQueryInfo } from './graphql-to-mongo';
+import { serializeResult } from './serialization';
+
+const { keys } = Object;
+
+/**
+ * A store for the results of queries, such as the default {MemoryCache} or one backed by Redis.
+ * Methods can return a promise.
+ */
+export interface QueryCache {
+  /**
+   * Gets the value stored under the key. Returns undefined if there is none or it expired. Callers may change
+   * the value that is returned, so it must not share objects with the stored value.
+   */
+  get(key: string): any | Promise<any>;
+
+  /**
+   * Stores the value under the key for the passed number of milliseconds.
+   */
+  set(key: string, value: any, ttlMS: number): void | Promise<void>;
+
+  /**
+   * Removes the value stored under the key.
+   */
+  delete(key: string): void | Promise<void>;
+}
+
+/**
+ * Options for caching the results of find.
+ */
+export interface CacheOptions {
+  /**
+   * Where results are stored. Defaults to a {MemoryCache} of 1000 results.
+   */
+  store?: QueryCache;
+
+  /**
+   * How long results are cached for in milliseconds. Defaults to 60000.
+   */
+  ttlMS?: number;
+
+  /**
+   * How long results are cached for per collection in milliseconds. Overrides ttlMS for the collections
+   * listed. Set to 0 to not cache a collection.
+   */
+  collections?: {
+    [collection: string]: number;
+  };
+}
+
+/**
+ * How the results of a single call are cached, built from the {CacheOptions} of the client.
+ */
+export interface CacheSettings {
+  store: QueryCache;
+
+  /**
+   * How long results of the collection are cached for. 0 if they are not cached.
+   */
+  ttlMS: (collection: string) => number;
+
+  /**
+   * If true, cached results are not read but the fresh results are still cached.
+   */
+  refresh: boolean;
+}
+
+/**
+ * A {QueryCache} that keeps results in memory and removes the least recently used ones once it is full.
+ * Values are copied when they are stored and when they are read.
+ */
+export class MemoryCache implements QueryCache {
+  private readonly entries: Map<string, { value: any, expires: number }>;
+  private readonly maxEntries: number;
+
+  /**
+   * Create a new {MemoryCache}.
+   * @param maxEntries The maximum number of results to keep. Defaults to 1000.
+   */
+  constructor(maxEntries?: number) {
+    this.entries = new Map();
+    this.maxEntries = typeof maxEntries === 'number'
+      ? maxEntries
+      : 1000;
+  }
+
+  get(key: string): any {
+    const entry = this.entries.get(key);
+    if (!entry) {
+      return undefined;
+    }
+    this.entries.delete(key);
+    if (entry.expires <= Date.now()) {
+      return undefined;
+    }
+
+    // Maps iterate in insertion order, so re-inserting marks the entry as the most recently used
+    this.entries.set(key, entry);
+    return cloneValue(entry.value);
+  }
+
+  set(key: string, value: any, ttlMS: number): void {
+    this.entries.delete(key);
+    this.entries.set(key, { value: cloneValue(value), expires: Date.now() + ttlMS });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value);
+    }
+  }
+
+  delete(key: string): void {
+    this.entries.delete(key);
+  }
+}
+
+/**
+ * Builds the cache key for the results of a query from everything that changes which documents it
+ * returns. The key does not depend on the order of the projected fields.
+ *
+ * @param queryInfo The query to build the key for.
+ * @return The cache key.
+ */
+export function cacheKey(queryInfo: MongoQueryInfo): string {
+  const normalize = (value: any) => serializeResult(value, { mode: 'canonical' });
+  return JSON.stringify({
+    collection: queryInfo.collection,
+    query: normalize(queryInfo.query),
+    fields: keys(queryInfo.fields).sort().map(field => [field, normalize(queryInfo.fields[field])]),
+    sort: keys(queryInfo.sort).map(field => [field, normalize(queryInfo.sort[field])]),
+    skip: queryInfo.skip || 0,
+    limit: queryInfo.limit,
+    lookups: normalize(queryInfo.lookups),
+    aggregate: normalize(queryInfo.aggregate),
+    cursor: queryInfo.cursor,
+    count: !!queryInfo.count,
+    collation: queryInfo.collation,
+    readConcern: queryInfo.readConcern,
+  });
+}
+
+// BSON values such as ObjectIds are not changed in place, so they are kept as they are
+function cloneValue(value: any): any {
+  if (Array.isArray(value)) {
+    return value.map(cloneValue);
+  }
+  if (value instanceof Date) {
+    return new Date(value.getTime());
+  }
+  if (value === null || typeof value !== 'object' || value._bsontype || value instanceof RegExp) {
+    return value;
+  }
+
+  return keys(value)
+    .reduce((result, key) => ({ ...result, [key]: cloneValue(value[key]) }), {});
+}
@@ -0,0 +1,184 @@
+import { MongoQueryInfo } from './graphql-to-mongo';
+import { FilterOperator, walkFilter } from './filter-walker';
+
+const { keys } = Object;
+
+/**
+ * How regexes can be used in filters.
+ * - allow: Any regex can be used.
+ * - anchored: Only regexes anchored to the start of the value with ^ can be used, since only those can use an index.
+ * - deny: Regexes can not be used.
+ */
+export type RegexUsage = 'allow' | 'anchored' | 'deny';
+
+/**
+ * Computes the cost of querying a single collection.
+ */
+export type QueryCost = (queryInfo: MongoQueryInfo) => number;
+
+/**
+ * Limits on how expensive a single request can be.
+ */
+export interface QueryLimits {
+  /**
+   * The maximum number of collections that can be queried in a single request.
+   */
+  maxCollections?: number;
+
+  /**
+   * The maximum depth of the fields that can be selected, filtered on or sorted on. A top-level field
+   * such as 'name' has a depth of 1 and 'address.city' has a depth of 2.
+   */
+  maxDepth?: number;
+
+  /**
+   * The maximum number of filter operators, including logical operators, in the filter of a single collection.
+   */
+  maxFilterOperators?: number;
+
+  /**
+   * How regexes can be used in filters, either for every collection or per collection. Defaults to allow.
+   */
+  regex?: RegexUsage | { [collection: string]: RegexUsage };
+
+  /**
+   * The maximum total cost of the collections queried in a single request.
+   */
+  maxCost?: number;
+
+  /**
+   * Computes the cost of querying a single collection. Defaults to the limit times the number of fields selected.
+   */
+  cost?: QueryCost;
+}
+
+/**
+ * A query that exceeded one of the {QueryLimits}.
+ */
+export interface QueryLimitError {
+  message: string;
+  limit: string;
+  collection?: string;
+  field?: string;
+  value?: number | string;
+  max?: number;
+}
+
+/**
+ * The default cost of querying a collection: the number of documents returned times the number of fields selected.
+ *
+ * @param queryInfo The query on the collection.
+ * @return The cost.
+ */
+export function queryCost(queryInfo: MongoQueryInfo): number {
+  return (queryInfo.limit || 0) * Math.max(keys(queryInfo.fields).length, 1);
+}
+
+/**
+ * Checks the passed queries against the passed limits.
+ *
+ * @param queryInfos The queries of a single request.
+ * @param limits The limits to check against.
+ * @return An error for every limit that was exceeded. Empty if none were.
+ */
+export function checkQueryLimits(queryInfos: MongoQueryInfo[], limits: QueryLimits): QueryLimitError[] {
+  const { maxCollections, maxCost } = limits;
+  const errors: QueryLimitError[] = [];
+
+  if (typeof maxCollections === 'number' && queryInfos.length > maxCollections) {
+    errors.push({
+      message: `Query uses ${queryInfos.length} collections, more than the maximum of ${maxCollections}`,
+      limit: 'maxCollections',
+      value: queryInfos.length,
+      max: maxCollections,
+    });
+  }
+
+  queryInfos.forEach(info => errors.push(...checkCollection(info, limits)));
+
+  if (typeof maxCost === 'number') {
+    const cost = queryInfos
+      .map(limits.cost || queryCost)
+      .reduce((total, collectionCost) => total + collectionCost, 0);
+    if (cost > maxCost) {
+      errors.push({
+        message: `Query has a cost of ${cost}, more than the maximum of ${maxCost}`,
+        limit: 'maxCost',
+        value: cost,
+        max: maxCost,
+      });
+    }
+  }
+
+  return errors;
+}
+
+function checkCollection(queryInfo: MongoQueryInfo, limits: QueryLimits): QueryLimitError[] {
+  const { maxDepth, maxFilterOperators } = limits;
+  const { collection } = queryInfo;
+  const errors: QueryLimitError[] = [];
+  const operators: FilterOperator[] = [];
+  walkFilter(queryInfo.query, operator => operators.push(operator));
+
+  if (typeof maxDepth === 'number') {
+    const deepest = [...keys(queryInfo.fields), ...keys(queryInfo.sort), ...operators.map(op => op.field)]
+      .filter(field => !!field)
+      .reduce((deepestField, field) => depth(field) > depth(deepestField) ? field : deepestField, '');
+    if (depth(deepest) > maxDepth) {
+      errors.push({
+        message: `Field '${deepest}' on collection '${collection}' is nested ${depth(deepest)} levels deep, more than the maximum of ${maxDepth}`,
+        limit: 'maxDepth',
+        collection,
+        field: deepest,
+        value: depth(deepest),
+        max: maxDepth,
+      });
+    }
+  }
+
+  if (typeof maxFilterOperators === 'number' && operators.length > maxFilterOperators) {
+    errors.push({
+      message: `Filter on collection '${collection}' uses ${operators.length} operators, more than the maximum of ${maxFilterOperators}`,
+      limit: 'maxFilterOperators',
+      collection,
+      value: operators.length,
+      max: maxFilterOperators,
+    });
+  }
+
+  const regex = regexUsage(limits, collection);
+  operators
+    .filter(({ operator }) => operator === '$regex' && regex !== 'allow')
+    .filter(({ value }) => regex === 'deny' || !isAnchored(value))
+    .forEach(({ field, value }) => errors.push({
+      message: regex === 'deny'
+        ? `Field '${field}' on collection '${collection}' can not be filtered with a regex`
+        : `Field '${field}' on collection '${collection}' can only be filtered with a regex that starts with ^`,
+      limit: 'regex',
+      collection,
+      field,
+      value: String(value),
+    }));
+
+  return errors;
+}
+
+function regexUsage(limits: QueryLimits, collection: string): RegexUsage {
+  const { regex } = limits;
+  if (!regex) {
+    return 'allow';
+  }
+
+  return typeof regex === 'string'
+    ? regex
+    : regex[collection] || 'allow';
+}
+
+function isAnchored(value: any): boolean {
+  const source = value instanceof RegExp ? value.source : String(value);
+  return source.startsWith('^') || source.startsWith('\\A');
+}
+
+function depth(field: string): number {
+  return field ? field.split('.').length : 0;
+}
@@ -0,0 +1,119 @@
+import { MongoQueryInfo } from './graphql-to-mongo';
+import { buildPipeline, pageQuery, usesPipeline } from './mongo-queries';
+import { serializeResult } from './serialization';
+import { renderShellValue } from './shell-values';
+
+const { keys } = Object;
+
+/**
+ * A translated query rendered in forms that can be read, stored or run without this library.
+ */
+export interface RenderedQuery {
+  /**
+   * The command that runs the query in the mongo shell, such as db.users.find({ ... }).limit(100).
+   */
+  shell: string;
+
+  /**
+   * The find or aggregate database command of the query as Relaxed Extended JSON.
+   */
+  extendedJson: string;
+
+  /**
+   * The options that are passed to the driver along with the query.
+   */
+  options: object;
+}
+
+/**
+ * Renders the find that {findAll} runs for the passed {MongoQueryInfo} without running it. Queries
+ * that use cursor based pagination are rendered for the page that their cursor describes.
+ *
+ * @param queryInfo The {MongoQueryInfo} to render.
+ * @return The rendered query.
+ */
+export function renderMongoQuery(queryInfo: MongoQueryInfo): RenderedQuery {
+  const info = queryInfo.cursor ? pageQuery(queryInfo) : queryInfo;
+  return usesPipeline(info)
+    ? renderAggregate(info)
+    : renderFind(info);
+}
+
+function renderFind(queryInfo: MongoQueryInfo): RenderedQuery {
+  const hasSort = keys(queryInfo.sort).length > 0;
+  const cursorMethods = [
+    ...(hasSort ? [`.sort(${renderShellValue(queryInfo.sort)})`] : []),
+    ...(queryInfo.skip ? [`.skip(${queryInfo.skip})`] : []),
+    ...(typeof queryInfo.limit === 'number' ? [`.limit(${queryInfo.limit})`] : []),
+    ...(queryInfo.collation ? [`.collation(${renderShellValue(queryInfo.collation)})`] : []),
+    ...(typeof queryInfo.maxTimeMS === 'number' ? [`.maxTimeMS(${queryInfo.maxTimeMS})`] : []),
+    ...(queryInfo.readPreference ? [`.readPref(${JSON.stringify(queryInfo.readPreference)})`] : []),
+    ...(queryInfo.readConcern ? [`.readConcern(${JSON.stringify(queryInfo.readConcern)})`] : []),
+  ];
+
+  return {
+    shell: `${shellCollection(queryInfo.collection)}.find(` +
+      `${renderShellValue(queryInfo.query)}, ${renderShellValue(queryInfo.fields)})${cursorMethods.join('')}`,
+    extendedJson: extendedJson({
+      find: queryInfo.collection,
+      filter: queryInfo.query,
+      projection: queryInfo.fields,
+      ...(hasSort ? { sort: queryInfo.sort } : {}),
+      ...(queryInfo.skip ? { skip: queryInfo.skip } : {}),
+      ...(typeof queryInfo.limit === 'number' ? { limit: queryInfo.limit } : {}),
+      ...commandOptions(queryInfo),
+    }),
+    options: {
+      fields: queryInfo.fields,
+      ...(hasSort ? { sort: queryInfo.sort } : {}),
+      ...(queryInfo.skip ? { skip: queryInfo.skip } : {}),
+      ...(typeof queryInfo.limit === 'number' ? { limit: queryInfo.limit } : {}),
+      ...driverOptions(queryInfo),
+    },
+  };
+}
+
+function renderAggregate(queryInfo: MongoQueryInfo): RenderedQuery {
+  const pipeline = buildPipeline(queryInfo);
+
+  // The shell can not set a read preference on a single aggregate, so it is left to the connection
+  const options = commandOptions(queryInfo);
+  const shellOptions = keys(options).length ? `, ${renderShellValue(options)}` : '';
+
+  return {
+    shell: `${shellCollection(queryInfo.collection)}.aggregate(${renderShellValue(pipeline)}${shellOptions})`,
+    extendedJson: extendedJson({
+      aggregate: queryInfo.collection,
+      pipeline,
+      cursor: {},
+      ...options,
+    }),
+    options: driverOptions(queryInfo),
+  };
+}
+
+// Options that are part of the find or aggregate command itself
+function commandOptions(queryInfo: MongoQueryInfo): object {
+  return {
+    ...(queryInfo.collation ? { collation: queryInfo.collation } : {}),
+    ...(typeof queryInfo.maxTimeMS === 'number' ? { maxTimeMS: queryInfo.maxTimeMS } : {}),
+    ...(queryInfo.readConcern ? { readConcern: { level: queryInfo.readConcern } } : {}),
+  };
+}
+
+function driverOptions(queryInfo: MongoQueryInfo): object {
+  return {
+    ...(queryInfo.readPreference ? { readPreference: queryInfo.readPreference } : {}),
+    ...commandOptions(queryInfo),
+  };
+}
+
+function shellCollection(collection: string): string {
+  return /^[A-Za-z_$][\w$]*$/.test(collection)
+    ? `db.${collection}`
+    : `db.getCollection(${JSON.stringify(collection)})`;
+}
+
+function extendedJson(command: object): string {
+  return JSON.stringify(serializeResult(command, { mode: 'relaxed' }));
+}
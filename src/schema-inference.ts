@@ -0,0 +1,396 @@
+import { Db } from 'mongodb';
+import { buildSchema, graphql, introspectionQuery, IntrospectionQuery } from 'graphql';
+import { BsonTypes } from './bson-types';
+import {
+  AccumulatorDirectives,
+  GeoArguments,
+  LogicalDirectives,
+  ValidCollectionArgs,
+  ValidLeafArguments,
+  ValidMutationArgs,
+} from './graphql-to-mongo';
+
+const { keys } = Object;
+
+/**
+ * Options for inferring a schema from the documents in a database.
+ */
+export interface InferSchemaOptions {
+  /**
+   * Number of documents to sample from each collection. Defaults to 100.
+   */
+  sampleSize?: number;
+
+  /**
+   * Collections to include in the schema. Defaults to every collection in the database.
+   */
+  collections?: string[];
+}
+
+/**
+ * A schema inferred from sampled documents.
+ */
+export interface InferredSchema {
+  sdl: string;
+  introspection: IntrospectionQuery;
+}
+
+/**
+ * The types seen for a single field across the sampled documents.
+ * Nested documents keep the shape of their fields and arrays keep the shape of their items.
+ */
+export interface FieldShape {
+  types: string[];
+  fields?: DocumentShape;
+  items?: FieldShape;
+}
+
+/**
+ * The shape of every field seen in a set of documents.
+ */
+export interface DocumentShape {
+  [field: string]: FieldShape;
+}
+
+// Scalars that are added on top of the built-in GraphQL scalars
+export const CustomScalars = ['ObjectId', 'Date', 'Decimal', 'UUID', 'Binary', 'JSON'];
+
+// Types of the collection-level arguments
+const CollectionArgTypes: { [arg: string]: string } = {
+  limit: 'Int',
+  skip: 'Int',
+  count: 'Boolean',
+  first: 'Int',
+  last: 'Int',
+  after: 'String',
+  before: 'String',
+  search: 'String',
+  language: 'String',
+  caseSensitive: 'Boolean',
+};
+
+// Types of the mutation arguments
+const MutationArgTypes: { [arg: string]: string } = {
+  insert: 'JSON',
+  delete: 'Boolean',
+  set: 'JSON',
+  inc: 'JSON',
+  unset: 'JSON',
+  push: 'JSON',
+  pull: 'JSON',
+  addToSet: 'JSON',
+  many: 'Boolean',
+};
+
+// Leaf arguments whose type does not depend on the type of the field
+const LeafArgTypes: { [arg: string]: string } = {
+  exists: 'Boolean',
+  regex: 'String',
+  options: 'String',
+  near: 'JSON',
+  nearSphere: 'JSON',
+  maxDistance: 'Float',
+  minDistance: 'Float',
+  geoWithin: 'JSON',
+  geoIntersects: 'JSON',
+};
+
+// Leaf arguments that take a list of values
+const ListLeafArgs = ['in', 'nin'];
+
+const ValidName = /^[_A-Za-z][_0-9A-Za-z]*$/;
+
+/**
+ * Infers a GraphQL schema from a sample of the documents in each collection of a database.
+ *
+ * @param db The database to sample.
+ * @param options Which collections to sample and how many documents to sample from each.
+ * @return {Promise<InferredSchema>} The SDL and introspection result of the inferred schema.
+ */
+export async function inferSchema(db: Db, options: InferSchemaOptions = {}): Promise<InferredSchema> {
+  const sampleSize = options.sampleSize || 100;
+  const collections = options.collections || (await db.collections())
+    .map(collection => collection.collectionName)
+    .filter(name => !name.startsWith('system.'))
+    .sort();
+
+  const shapes: { [collection: string]: DocumentShape } = {};
+  for (const collection of collections) {
+    const documents = await db
+      .collection(collection)
+      .aggregate([{ $sample: { size: sampleSize } }])
+      .toArray();
+    shapes[collection] = inferShape(documents);
+  }
+
+  return schemaFromShapes(shapes);
+}
+
+/**
+ * Builds the SDL and introspection result for the passed collection shapes.
+ *
+ * @param shapes The shape of the documents in each collection.
+ * @return {Promise<InferredSchema>} The SDL and introspection result.
+ */
+export async function schemaFromShapes(shapes: { [collection: string]: DocumentShape }): Promise<InferredSchema> {
+  const sdl = printSchemaSdl(shapes);
+  const result = await graphql(buildSchema(sdl), introspectionQuery);
+
+  return {
+    sdl,
+    introspection: <IntrospectionQuery>result.data,
+  };
+}
+
+/**
+ * Merges the fields of the passed documents into a single shape.
+ *
+ * @param documents The documents to merge.
+ * @return The shape of the documents.
+ */
+export function inferShape(documents: any[]): DocumentShape {
+  return documents.reduce((shape, document) => addDocument(shape, document), {});
+}
+
+/**
+ * Prints the SDL for the passed collection shapes. Every collection gets a field on Query and Mutation,
+ * leaves get the filter arguments and nested documents get their own type.
+ *
+ * @param shapes The shape of the documents in each collection.
+ * @return The SDL.
+ */
+export function printSchemaSdl(shapes: { [collection: string]: DocumentShape }): string {
+  const names = new Set(['Query', 'Mutation', 'String', 'Int', 'Float', 'Boolean', 'ID', ...CustomScalars]);
+  const types: string[] = [];
+  const roots = keys(shapes)
+    .filter(collection => ValidName.test(collection) && hasFields(shapes[collection]))
+    .map(collection => ({ collection, type: printObjectType([collection], shapes[collection], names, types) }));
+  if (!roots.length) {
+    throw new Error('No documents found to infer a schema from.');
+  }
+
+  const collectionArgs = ValidCollectionArgs.map(arg => `${arg}: ${CollectionArgTypes[arg]}`).join(', ');
+  const mutationArgs = ValidMutationArgs.map(arg => `${arg}: ${MutationArgTypes[arg]}`).join(', ');
+  return [
+    ...CustomScalars.map(scalar => `scalar ${scalar}`),
+    '',
+    ...printDirectives(),
+    '',
+    'type Query {',
+    ...roots.map(({ collection, type }) => `  ${collection}(${collectionArgs}): [${type}]`),
+    '}',
+    '',
+    'type Mutation {',
+    ...roots.map(({ collection, type }) => `  ${collection}(${mutationArgs}): [${type}]`),
+    '}',
+    '',
+    types.join('\n\n'),
+    '',
+  ].join('\n');
+}
+
+function addDocument(shape: DocumentShape, document: any): DocumentShape {
+  for (const field of keys(document)) {
+    shape[field] = addValue(shape[field] || { types: [] }, document[field]);
+  }
+
+  return shape;
+}
+
+function addValue(shape: FieldShape, value: any): FieldShape {
+  if (value === null || typeof value === 'undefined') {
+    return shape;
+  }
+
+  const type = scalarType(value);
+  if (!shape.types.includes(type)) {
+    shape.types.push(type);
+  }
+  if (type === 'Object') {
+    shape.fields = addDocument(shape.fields || {}, value);
+  } else if (type === 'Array') {
+    shape.items = value.reduce((items: FieldShape, item: any) => addValue(items, item), shape.items || { types: [] });
+  }
+
+  return shape;
+}
+
+function scalarType(value: any): string {
+  if (Array.isArray(value)) {
+    return 'Array';
+  }
+  if (value instanceof Date) {
+    return 'Date';
+  }
+
+  switch (typeof value) {
+    case 'string':
+      return 'String';
+    case 'boolean':
+      return 'Boolean';
+    case 'number':
+      return Number.isInteger(value) && value >= -0x80000000 && value <= 0x7fffffff ? 'Int' : 'Float';
+    case 'object':
+      break;
+    default:
+      return 'JSON';
+  }
+
+  switch (value._bsontype) {
+    case undefined:
+      return (value.constructor === Object || !value.constructor) && !isGeoJson(value) ? 'Object' : 'JSON';
+    case 'ObjectID':
+      return 'ObjectId';
+    case 'Decimal128':
+      return 'Decimal';
+    case 'Int32':
+      return 'Int';
+    case 'Double':
+    case 'Long':
+      return 'Float';
+    case 'Binary':
+      return value.sub_type === 4 ? 'UUID' : 'Binary';
+    default:
+      return 'JSON';
+  }
+}
+
+function isGeoJson(value: any): boolean {
+  return typeof value.type === 'string' && (Array.isArray(value.coordinates) || Array.isArray(value.geometries));
+}
+
+/**
+ * Prints the definitions of the directives that can be used in queries.
+ *
+ * @return The directive definitions.
+ */
+export function printDirectives(): string[] {
+  return [
+    'directive @sort on FIELD',
+    'directive @sortDesc on FIELD',
+    ...LogicalDirectives.map(directive => `directive @${directive}(group: String) on FIELD`),
+    'directive @lookup(from: String!, localField: String!, foreignField: String!) on FIELD',
+    'directive @aggregate on FIELD',
+    'directive @sortByScore on FIELD',
+    'directive @readPreference(mode: String!) on FIELD',
+    'directive @readConcern(level: String!) on FIELD',
+    'directive @collation(locale: String!, caseLevel: Boolean, caseFirst: String, strength: Int, ' +
+    'numericOrdering: Boolean, alternate: String, maxVariable: String, backwards: Boolean) on FIELD',
+    'directive @groupBy on FIELD',
+    ...AccumulatorDirectives.map(directive => `directive @${directive} on FIELD`),
+    ...BsonTypes.map(directive => `directive @${directive} on FIELD`),
+  ];
+}
+
+function printObjectType(path: string[], shape: DocumentShape, names: Set<string>, types: string[]): string {
+  const name = uniqueName(path, names);
+
+  // Reserve a spot so that parent types are printed before their children
+  const index = types.push('') - 1;
+  const fields = keys(shape)
+    .filter(field => isValidField(field, shape[field]))
+    .map(field => printField(field, [...path, field], shape[field], names, types));
+  types[index] = [`type ${name} {`, ...fields, '}'].join('\n');
+
+  return name;
+}
+
+function printField(field: string, path: string[], shape: FieldShape, names: Set<string>, types: string[]): string {
+  // Mongo matches a condition on an array field against each of its items, so single values are merged into them
+  const isList = shape.types.includes('Array');
+  const itemShape = isList ? mergeIntoItems(shape) : shape;
+  const itemType = fieldType(itemShape);
+
+  if (itemType === 'Object' && hasFields(itemShape.fields)) {
+    const type = printObjectType(path, itemShape.fields, names, types);
+    const args = isList ? 'include: Boolean, elemMatch: Boolean' : 'include: Boolean';
+    return `  ${field}(${args}): ${isList ? `[${type}]` : type}`;
+  }
+
+  const type = itemType === 'Object' ? 'JSON' : itemType;
+  return `  ${field}(${printLeafArgs(type)}): ${isList ? `[${type}]` : type}`;
+}
+
+function printLeafArgs(type: string): string {
+  // Locations are GeoJSON objects, which are inferred as JSON
+  return ValidLeafArguments
+    .filter(arg => type === 'JSON' || !GeoArguments.includes(arg))
+    .map(arg => {
+      if (arg in LeafArgTypes) {
+        return `${arg}: ${LeafArgTypes[arg]}`;
+      }
+      return ListLeafArgs.includes(arg) ? `${arg}: [${type}]` : `${arg}: ${type}`;
+    })
+    .join(', ');
+}
+
+function mergeIntoItems(shape: FieldShape): FieldShape {
+  const items: FieldShape = shape.items
+    ? { types: [...shape.items.types], fields: shape.items.fields }
+    : { types: [] };
+  for (const type of shape.types.filter(t => t !== 'Array' && !items.types.includes(t))) {
+    items.types.push(type);
+  }
+  if (shape.fields) {
+    items.fields = items.fields
+      ? mergeFields(items.fields, shape.fields)
+      : shape.fields;
+  }
+
+  return items;
+}
+
+function mergeFields(a: DocumentShape, b: DocumentShape): DocumentShape {
+  return keys(b).reduce((merged, field) => ({
+    ...merged,
+    [field]: merged[field]
+      ? {
+        types: [...merged[field].types, ...b[field].types.filter(type => !merged[field].types.includes(type))],
+        fields: merged[field].fields && b[field].fields
+          ? mergeFields(merged[field].fields, b[field].fields)
+          : merged[field].fields || b[field].fields,
+        items: merged[field].items || b[field].items,
+      }
+      : b[field]
+  }), { ...a });
+}
+
+function fieldType(shape: FieldShape): string {
+  const { types } = shape;
+  if (types.length === 1) {
+    return types[0] === 'Array' ? 'JSON' : types[0];
+  }
+  if (types.length === 2 && types.includes('Int') && types.includes('Float')) {
+    return 'Float';
+  }
+
+  // Fields that hold more than one kind of value can only be described as JSON
+  return 'JSON';
+}
+
+function hasFields(shape: DocumentShape): boolean {
+  return !!shape && keys(shape).some(field => isValidField(field, shape[field]));
+}
+
+function isValidField(field: string, shape: FieldShape): boolean {
+  return ValidName.test(field) && !field.startsWith('__') && shape.types.length > 0;
+}
+
+function uniqueName(path: string[], names: Set<string>): string {
+  const base = path
+    .map(part => part
+      .split(/[^0-9A-Za-z]+/)
+      .filter(word => word.length > 0)
+      .map(word => word[0].toUpperCase() + word.slice(1))
+      .join(''))
+    .join('') || 'Type';
+  const safe = /^[0-9]/.test(base) ? `_${base}` : base;
+
+  let name = safe;
+  for (let i = 2; names.has(name); i++) {
+    name = `${safe}${i}`;
+  }
+  names.add(name);
+
+  return name;
+}
@@ -0,0 +1,153 @@
+import {
+  ArgumentNode,
+  buildASTSchema,
+  DocumentNode,
+  getNamedType,
+  GraphQLError,
+  GraphQLInputType,
+  GraphQLScalarType,
+  GraphQLSchema,
+  isValidJSValue,
+  NoUndefinedVariablesRule,
+  parse,
+  specifiedRules,
+  validate,
+  ValidationContext,
+  ValueNode,
+} from 'graphql';
+import { BsonType, coerceValue } from './bson-types';
+import { CustomScalars, printDirectives } from './schema-inference';
+
+// Scalars whose values are checked the same way filter values are converted to BSON types
+const BsonScalars: { [scalar: string]: BsonType } = {
+  ObjectId: 'objectId',
+  Date: 'date',
+  Decimal: 'decimal',
+  UUID: 'uuid',
+};
+
+// Variables do not have to be declared by the operation, so they are checked against their values instead
+const ValidationRules = specifiedRules.filter(rule => rule !== NoUndefinedVariablesRule);
+
+/**
+ * Builds the schema that queries are validated against. Scalars and directives used by this library
+ * are added to an SDL when it does not define them itself.
+ *
+ * @param schema The schema or its SDL.
+ * @return The schema.
+ */
+export function buildValidationSchema(schema: GraphQLSchema | string): GraphQLSchema {
+  if (typeof schema !== 'string') {
+    return schema;
+  }
+
+  const document = parse(schema);
+  const defined = new Set(document.definitions.map((definition: any) => definition.name && definition.name.value));
+  const library = parse([
+    ...CustomScalars.map(scalar => `scalar ${scalar}`),
+    ...printDirectives(),
+  ].join('\n'));
+
+  return buildASTSchema({
+    ...document,
+    definitions: [
+      ...document.definitions,
+      ...library.definitions.filter((definition: any) => !defined.has(definition.name.value)),
+    ],
+  });
+}
+
+/**
+ * Validates a query against a schema. Along with the standard validation rules, the values of
+ * variables are checked against the types of the arguments they are passed to.
+ *
+ * @param schema The schema to validate against.
+ * @param document The query to validate.
+ * @param variables Variables used in the query.
+ * @return The validation errors. Empty if the query is valid.
+ */
+export function validateQuery(schema: GraphQLSchema, document: DocumentNode, variables?: object): GraphQLError[] {
+  // graphql-tag only keeps the location of the document itself, so parse its source again to report where errors are
+  const located = document.loc && document.loc.source
+    ? parse(document.loc.source)
+    : document;
+
+  return validate(schema, located, [...ValidationRules, argumentValues(variables || {})]);
+}
+
+function argumentValues(variables: any) {
+  return (context: ValidationContext) => ({
+    Argument(node: ArgumentNode) {
+      // Unknown arguments are reported by the standard rules
+      const argument = context.getArgument();
+      if (!argument) {
+        return;
+      }
+
+      const value = valueOf(node.value, variables);
+      const field = context.getFieldDef();
+      const problems = [
+        ...(hasVariables(node.value) ? isValidJSValue(value, argument.type) : []),
+        ...bsonProblems(value, argument.type, field ? field.name : node.name.value),
+      ];
+      problems.forEach(problem => context.reportError(
+        new GraphQLError(`Argument "${node.name.value}" has invalid value. ${problem}`, [node.value])
+      ));
+    }
+  });
+}
+
+function bsonProblems(value: any, type: GraphQLInputType, field: string): string[] {
+  const namedType = getNamedType(type);
+  if (!(namedType instanceof GraphQLScalarType) || !BsonScalars[namedType.name]) {
+    return [];
+  }
+
+  return (Array.isArray(value) ? value : [value])
+    .map(item => {
+      try {
+        coerceValue(BsonScalars[namedType.name], item, field);
+        return null;
+      } catch (err) {
+        return err.message;
+      }
+    })
+    .filter(problem => !!problem);
+}
+
+function hasVariables(node: ValueNode): boolean {
+  switch (node.kind) {
+    case 'Variable':
+      return true;
+    case 'ListValue':
+      return node.values.some(hasVariables);
+    case 'ObjectValue':
+      return node.fields.some(field => hasVariables(field.value));
+    default:
+      return false;
+  }
+}
+
+function valueOf(node: ValueNode, variables: any): any {
+  switch (node.kind) {
+    case 'Variable':
+      return variables[node.name.value];
+    case 'IntValue':
+      return parseInt(node.value, 10);
+    case 'FloatValue':
+      return parseFloat(node.value);
+    case 'StringValue':
+    case 'BooleanValue':
+    case 'EnumValue':
+      return node.value;
+    case 'ListValue':
+      return node.values.map(item => valueOf(item, variables));
+    case 'ObjectValue':
+      return node.fields.reduce((obj, field) => ({
+        ...obj,
+        [field.name.value]: valueOf(field.value, variables)
+      }), {});
+    default:
+      return null;
+  }
+}
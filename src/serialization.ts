@@ -0,0 +1,129 @@
+const { keys } = Object;
+
+/**
+ * How BSON values in results are written out.
+ * - raw: Leave the documents as they come back from the driver.
+ * - json: Plain JSON values such as ObjectIds as hex strings and dates as ISO strings.
+ * - relaxed: Relaxed Extended JSON.
+ * - canonical: Canonical Extended JSON.
+ */
+export type SerializationMode = 'raw' | 'json' | 'relaxed' | 'canonical';
+
+/**
+ * Options for serializing results.
+ */
+export interface SerializationOptions {
+  /**
+   * How BSON values are written out. Defaults to raw.
+   */
+  mode?: SerializationMode;
+
+  /**
+   * If true, every _id field is renamed to id. Defaults to false.
+   */
+  renameId?: boolean;
+}
+
+/**
+ * Serializes a result from the driver recursively, going into nested documents and arrays.
+ *
+ * @param value The result to serialize.
+ * @param options How to serialize the result.
+ * @return The serialized result.
+ */
+export function serializeResult(value: any, options: SerializationOptions): any {
+  const mode = options.mode || 'raw';
+  if (mode === 'raw' && !options.renameId) {
+    return value;
+  }
+
+  return serializeValue(value, mode, options.renameId === true);
+}
+
+function serializeValue(value: any, mode: SerializationMode, renameId: boolean): any {
+  if (value === null || typeof value === 'undefined') {
+    return value;
+  }
+  if (Array.isArray(value)) {
+    return value.map(item => serializeValue(item, mode, renameId));
+  }
+  if (typeof value === 'number' && mode === 'canonical') {
+    return serializeNumber(value);
+  }
+  if (typeof value !== 'object' || mode === 'raw' && (value._bsontype || value instanceof Date)) {
+    return value;
+  }
+  if (value instanceof Date) {
+    return serializeDate(value, mode);
+  }
+  if (value instanceof RegExp) {
+    return mode === 'json'
+      ? value.toString()
+      : { $regularExpression: { pattern: value.source, options: value.flags } };
+  }
+  if (value._bsontype) {
+    return serializeBson(value, mode);
+  }
+
+  return keys(value)
+    .reduce((result, key) => ({
+      ...result,
+      [renameId && key === '_id' ? 'id' : key]: serializeValue(value[key], mode, renameId)
+    }), {});
+}
+
+function serializeNumber(value: number): object {
+  const isInt32 = Number.isInteger(value) && value >= -0x80000000 && value <= 0x7fffffff;
+  return isInt32
+    ? { $numberInt: String(value) }
+    : { $numberDouble: String(value) };
+}
+
+function serializeDate(value: Date, mode: SerializationMode): any {
+  const year = value.getUTCFullYear();
+  switch (mode) {
+    case 'json':
+      return value.toISOString();
+    case 'relaxed':
+      return year >= 1970 && year <= 9999
+        ? { $date: value.toISOString() }
+        : { $date: { $numberLong: String(value.getTime()) } };
+    default:
+      return { $date: { $numberLong: String(value.getTime()) } };
+  }
+}
+
+function serializeBson(value: any, mode: SerializationMode): any {
+  const json = mode === 'json';
+  switch (value._bsontype) {
+    case 'ObjectID':
+      return json ? value.toHexString() : { $oid: value.toHexString() };
+    case 'Decimal128':
+      return json ? value.toString() : { $numberDecimal: value.toString() };
+    case 'Long':
+      return mode === 'canonical' ? { $numberLong: value.toString() } : value.toNumber();
+    case 'Double':
+      return mode === 'canonical' ? { $numberDouble: String(value.valueOf()) } : value.valueOf();
+    case 'Int32':
+      return mode === 'canonical' ? { $numberInt: String(value.valueOf()) } : value.valueOf();
+    case 'Timestamp':
+      return json
+        ? value.toString()
+        : { $timestamp: { t: value.getHighBits() >>> 0, i: value.getLowBits() >>> 0 } };
+    case 'Binary': {
+      const buffer: Buffer = value.buffer.slice(0, value.position);
+      if (json) {
+        return value.sub_type === 4
+          ? buffer.toString('hex').replace(/^(.{8})(.{4})(.{4})(.{4})(.{12})$/, '$1-$2-$3-$4-$5')
+          : buffer.toString('base64');
+      }
+      return { $binary: { base64: buffer.toString('base64'), subType: ('0' + value.sub_type.toString(16)).slice(-2) } };
+    }
+    case 'MinKey':
+      return json ? null : { $minKey: 1 };
+    case 'MaxKey':
+      return json ? null : { $maxKey: 1 };
+    default:
+      return typeof value.toJSON === 'function' ? value.toJSON() : String(value);
+  }
+}
@@ -0,0 +1,70 @@
+const { keys } = Object;
+
+/**
+ * Renders a value in the syntax of the mongo shell, going into nested documents and arrays. BSON values
+ * are written with the shell's helpers such as ObjectId("...") and ISODate("...") so that the result can
+ * be pasted into the shell as is.
+ *
+ * @param value The value to render.
+ * @return The value in mongo shell syntax.
+ */
+export function renderShellValue(value: any): string {
+  if (value === null) {
+    return 'null';
+  }
+  if (typeof value === 'undefined') {
+    return 'undefined';
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(renderShellValue).join(', ')}]`;
+  }
+  if (typeof value === 'number') {
+    return String(value);
+  }
+  if (typeof value !== 'object') {
+    return JSON.stringify(value);
+  }
+  if (value instanceof Date) {
+    return `ISODate(${JSON.stringify(value.toISOString())})`;
+  }
+  if (value instanceof RegExp) {
+    return String(value);
+  }
+  if (value._bsontype) {
+    return renderBson(value);
+  }
+
+  const fields = keys(value)
+    .filter(key => typeof value[key] !== 'undefined')
+    .map(key => `${JSON.stringify(key)}: ${renderShellValue(value[key])}`);
+  return fields.length ? `{ ${fields.join(', ')} }` : '{}';
+}
+
+function renderBson(value: any): string {
+  switch (value._bsontype) {
+    case 'ObjectID':
+      return `ObjectId("${value.toHexString()}")`;
+    case 'Decimal128':
+      return `NumberDecimal("${value.toString()}")`;
+    case 'Long':
+      return `NumberLong("${value.toString()}")`;
+    case 'Int32':
+      return `NumberInt(${value.valueOf()})`;
+    case 'Double':
+      return String(value.valueOf());
+    case 'Timestamp':
+      return `Timestamp(${value.getHighBits() >>> 0}, ${value.getLowBits() >>> 0})`;
+    case 'Binary': {
+      const buffer: Buffer = value.buffer.slice(0, value.position);
+      return value.sub_type === 4
+        ? `UUID("${buffer.toString('hex')}")`
+        : `BinData(${value.sub_type}, "${buffer.toString('base64')}")`;
+    }
+    case 'MinKey':
+      return 'MinKey';
+    case 'MaxKey':
+      return 'MaxKey';
+    default:
+      return JSON.stringify(typeof value.toJSON === 'function' ? value.toJSON() : String(value));
+  }
+}
@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import { Binary, Decimal128, ObjectID } from 'mongodb';
+import { coerceQuery, coerceValue } from '../src/bson-types';
+
+describe('BSON Types', () => {
+  describe('coerceValue', () => {
+    it('should convert strings to ObjectIds', () => {
+      // Act
+      const value = coerceValue('objectId', '5a1b2c3d4e5f6a7b8c9d0e1f', '_id');
+
+      // Assert
+      expect(value).to.be.instanceOf(ObjectID);
+      expect(value.toHexString()).to.equal('5a1b2c3d4e5f6a7b8c9d0e1f');
+    });
+
+    it('should convert strings and numbers to dates', () => {
+      // Act / Assert
+      expect(coerceValue('date', '2017-01-17T05:00:00.000Z', 'createdAt'))
+        .to.deep.equal(new Date('2017-01-17T05:00:00.000Z'));
+      expect(coerceValue('date', 1484629200000, 'createdAt'))
+        .to.deep.equal(new Date('2017-01-17T05:00:00.000Z'));
+    });
+
+    it('should convert strings and numbers to decimals', () => {
+      // Act
+      const value = coerceValue('decimal', 10.25, 'price');
+
+      // Assert
+      expect(value).to.be.instanceOf(Decimal128);
+      expect(value.toString()).to.equal('10.25');
+    });
+
+    it('should convert strings to UUIDs', () => {
+      // Act
+      const value = coerceValue('uuid', '123e4567-e89b-12d3-a456-426655440000', 'token');
+
+      // Assert
+      expect(value).to.be.instanceOf(Binary);
+      expect(value.sub_type).to.equal(Binary.SUBTYPE_UUID);
+      expect(value.buffer.toString('hex')).to.equal('123e4567e89b12d3a456426655440000');
+    });
+
+    it('should leave values that are already objects alone', () => {
+      // Arrange
+      const id = new ObjectID();
+
+      // Act / Assert
+      expect(coerceValue('objectId', id, '_id')).to.equal(id);
+    });
+
+    it('should throw for invalid values', () => {
+      // Act / Assert
+      expect(() => coerceValue('objectId', 'nope', '_id')).to.throw(`Value 'nope' for field '_id' is not a valid ObjectId.`);
+      expect(() => coerceValue('objectId', 'twelve chars', '_id')).to.throw(`Value 'twelve chars' for field '_id' is not a valid ObjectId.`);
+      expect(() => coerceValue('objectId', 42, '_id')).to.throw(`Value '42' for field '_id' is not a valid ObjectId.`);
+      expect(() => coerceValue('date', 'nope', 'createdAt')).to.throw(`Value 'nope' for field 'createdAt' is not a valid date.`);
+      expect(() => coerceValue('uuid', 'nope', 'token')).to.throw(`Value 'nope' for field 'token' is not a valid UUID.`);
+    });
+  });
+
+  describe('coerceQuery', () => {
+    it('should convert values inside operations, lists, logical operators and elemMatch', () => {
+      // Arrange
+      const query: any = {
+        '_id': { $in: ['5a1b2c3d4e5f6a7b8c9d0e1f'] },
+        'createdAt': { $gte: '2017-01-17T05:00:00.000Z', $exists: true },
+        $or: [
+          { 'ownerId': { $eq: '5a1b2c3d4e5f6a7b8c9d0e1f' } },
+        ],
+        'visits': {
+          $elemMatch: {
+            'at': { $lt: '2017-01-17T05:00:00.000Z' },
+          }
+        },
+      };
+
+      // Act
+      coerceQuery(query, {
+        '_id': 'objectId',
+        'ownerId': 'objectId',
+        'createdAt': 'date',
+        'visits.at': 'date',
+      });
+
+      // Assert
+      expect(query._id.$in[0]).to.be.instanceOf(ObjectID);
+      expect(query.createdAt).to.deep.equal({ $gte: new Date('2017-01-17T05:00:00.000Z'), $exists: true });
+      expect(query.$or[0].ownerId.$eq).to.be.instanceOf(ObjectID);
+      expect(query.visits.$elemMatch.at.$lt).to.deep.equal(new Date('2017-01-17T05:00:00.000Z'));
+    });
+  });
+});
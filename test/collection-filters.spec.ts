@@ -0,0 +1,96 @@
+import { expect } from 'chai';
+import { applyCollectionFilter, CollectionFilters } from '../src/collection-filters';
+import { queryInfoWith } from './util/query-info';
+
+describe('Collection filters', () => {
+  const queryInfo = queryInfoWith({ collection: 'orders' });
+
+  const filters: CollectionFilters = {
+    orders: context => ({ tenantId: context.tenantId }),
+    users: context => context.isAdmin ? null : { active: true },
+    reports: context => ({ tenantId: { $in: context.tenantIds } }),
+  };
+
+  it('should combine the filter with the query using $and', () => {
+    // Arrange
+    const info = queryInfo({ query: { tenantId: { $eq: 2 }, total: { $gt: 10 } } });
+
+    // Act
+    applyCollectionFilter(info, filters, { tenantId: 1 });
+
+    // Assert
+    expect(info.query).to.deep.equal({
+      $and: [
+        { tenantId: 1 },
+        { tenantId: { $eq: 2 }, total: { $gt: 10 } },
+      ]
+    });
+  });
+
+  it('should use the filter as the query when the query has no filters', () => {
+    // Arrange
+    const info = queryInfo({});
+
+    // Act
+    applyCollectionFilter(info, filters, { tenantId: 1 });
+
+    // Assert
+    expect(info.query).to.deep.equal({ tenantId: 1 });
+  });
+
+  it('should leave the query alone when the filter is empty or the collection has no filter', () => {
+    // Arrange
+    const users = queryInfo({ collection: 'users', query: { name: { $eq: 'Jane' } } });
+    const cities = queryInfo({ collection: 'cities', query: { name: { $eq: 'Miami' } } });
+
+    // Act
+    applyCollectionFilter(users, filters, { isAdmin: true });
+    applyCollectionFilter(cities, filters, { tenantId: 1 });
+
+    // Assert
+    expect(users.query).to.deep.equal({ name: { $eq: 'Jane' } });
+    expect(cities.query).to.deep.equal({ name: { $eq: 'Miami' } });
+  });
+
+  it('should set the filtered fields on inserted documents', () => {
+    // Arrange
+    const info = queryInfo({ operation: 'insert', insert: [{ total: 5, tenantId: 2 }] });
+
+    // Act
+    applyCollectionFilter(info, filters, { tenantId: 1 });
+
+    // Assert
+    expect(info.insert).to.deep.equal([{ total: 5, tenantId: 1 }]);
+    expect(info.query).to.deep.equal({});
+  });
+
+  it('should refuse inserts when the filter does not match on exact values', () => {
+    // Arrange
+    const info = queryInfo({ collection: 'reports', operation: 'insert', insert: { name: 'Sales' } });
+
+    // Act / Assert
+    expect(() => applyCollectionFilter(info, filters, { tenantIds: [1] }))
+      .to.throw(`Can not insert into collection 'reports' because its filter does not match on exact values`);
+  });
+
+  it('should refuse updates that change filtered fields', () => {
+    // Arrange
+    const info = queryInfo({ operation: 'update', update: { $set: { tenantId: 2 } } });
+
+    // Act / Assert
+    expect(() => applyCollectionFilter(info, filters, { tenantId: 1 }))
+      .to.throw(`Can not change field 'tenantId' on collection 'orders'`);
+  });
+
+  it('should refuse joining collections that have a filter', () => {
+    // Arrange
+    const info = queryInfo({
+      collection: 'cities',
+      lookups: [{ from: 'orders', localField: '_id', foreignField: 'cityId', as: 'orders' }],
+    });
+
+    // Act / Assert
+    expect(() => applyCollectionFilter(info, filters, { tenantId: 1 }))
+      .to.throw(`Can not join collection 'orders' on collection 'cities'`);
+  });
+});
@@ -0,0 +1,145 @@
+import { expect } from 'chai';
+import { Binary, Decimal128, Long, ObjectID } from 'mongodb';
+import { cursorFilter, cursorFor, cursorSort } from '../src/cursors';
+
+describe('Cursors', () => {
+  describe('cursorSort', () => {
+    it('should add _id to the end of the sort', () => {
+      // Act
+      const sort = cursorSort({ age: -1, name: 1 });
+
+      // Assert
+      expect(sort).to.deep.equal({ age: -1, name: 1, _id: 1 });
+      expect(Object.keys(sort)).to.deep.equal(['age', 'name', '_id']);
+    });
+
+    it('should keep the direction of an explicit _id sort', () => {
+      // Act
+      const sort = cursorSort({ _id: -1 });
+
+      // Assert
+      expect(sort).to.deep.equal({ _id: -1 });
+    });
+
+    it('should reverse the sort when paging backward', () => {
+      // Act
+      const sort = cursorSort({ age: -1 }, true);
+
+      // Assert
+      expect(sort).to.deep.equal({ age: 1, _id: -1 });
+    });
+  });
+
+  describe('cursorFilter', () => {
+    it('should match documents after the cursor', () => {
+      // Arrange
+      const sort = { age: -1, _id: 1 };
+      const cursor = cursorFor({ _id: 3, age: 20, address: { city: 'Miami' } }, sort);
+
+      // Act
+      const filter = cursorFilter(cursor, sort);
+
+      // Assert
+      expect(filter).to.deep.equal({
+        $or: [
+          { $or: [{ age: { $lt: 20 } }, { age: null }] },
+          { age: 20, _id: { $gt: 3 } },
+        ]
+      });
+    });
+
+    it('should match documents before the cursor', () => {
+      // Arrange
+      const sort = { 'address.city': 1, _id: 1 };
+      const cursor = cursorFor({ _id: 3, address: { city: 'Miami' } }, sort);
+
+      // Act
+      const filter = cursorFilter(cursor, sort, true);
+
+      // Assert
+      expect(filter).to.deep.equal({
+        $or: [
+          { $or: [{ 'address.city': { $lt: 'Miami' } }, { 'address.city': null }] },
+          { 'address.city': 'Miami', _id: { $lt: 3 } },
+        ]
+      });
+    });
+
+    it('should restore ObjectIDs and Dates from the cursor', () => {
+      // Arrange
+      const sort = { createdAt: 1, _id: 1 };
+      const id = new ObjectID('5a1b2c3d4e5f6a7b8c9d0e1f');
+      const createdAt = new Date('2017-01-17T05:00:00.000Z');
+      const cursor = cursorFor({ _id: id, createdAt }, sort);
+
+      // Act
+      const filter: any = cursorFilter(cursor, sort);
+
+      // Assert
+      expect(filter.$or[0].createdAt.$gt).to.deep.equal(createdAt);
+      expect(filter.$or[1]._id.$gt.toHexString()).to.equal('5a1b2c3d4e5f6a7b8c9d0e1f');
+    });
+
+    it('should restore other BSON values from the cursor', () => {
+      // Arrange
+      const sort = { price: 1, views: 1, key: 1, _id: 1 };
+      const key = new Binary(Buffer.from('0123456789abcdef0123456789abcdef', 'hex'), 4);
+      const cursor = cursorFor({ _id: 1, price: Decimal128.fromString('9.99'), views: Long.fromString('9007199254740993'), key }, sort);
+
+      // Act
+      const filter: any = cursorFilter(cursor, sort);
+
+      // Assert
+      const [price, views, keyValue, id] = filter.$or.map((condition: any, i: number) => condition[Object.keys(sort)[i]].$gt);
+      expect(price._bsontype).to.equal('Decimal128');
+      expect(price.toString()).to.equal('9.99');
+      expect(views._bsontype).to.equal('Long');
+      expect(views.toString()).to.equal('9007199254740993');
+      expect(keyValue.sub_type).to.equal(4);
+      expect(keyValue.value(true).toString('hex')).to.equal('0123456789abcdef0123456789abcdef');
+      expect(id).to.equal(1);
+    });
+
+    it('should match documents after a missing value', () => {
+      // Arrange
+      const sort = { age: 1, _id: 1 };
+      const cursor = cursorFor({ _id: 3 }, sort);
+
+      // Act
+      const filter = cursorFilter(cursor, sort);
+
+      // Assert
+      expect(filter).to.deep.equal({
+        $or: [
+          { age: { $ne: null } },
+          { age: null, _id: { $gt: 3 } },
+        ]
+      });
+    });
+
+    it('should only match equal values before a null value', () => {
+      // Arrange
+      const sort = { age: 1, _id: 1 };
+      const cursor = cursorFor({ _id: 3, age: null }, sort);
+
+      // Act
+      const filter = cursorFilter(cursor, sort, true);
+
+      // Assert
+      expect(filter).to.deep.equal({ age: null, _id: { $lt: 3 } });
+    });
+
+    it('should reject cursors that do not match the sort', () => {
+      // Arrange
+      const cursor = cursorFor({ _id: 1 }, { _id: 1 });
+
+      // Act / Assert
+      expect(() => cursorFilter(cursor, { age: 1, _id: 1 })).to.throw(`Invalid cursor '${cursor}'`);
+    });
+
+    it('should reject malformed cursors', () => {
+      // Act / Assert
+      expect(() => cursorFilter('not a cursor', { _id: 1 })).to.throw(`Invalid cursor 'not a cursor'`);
+    });
+  });
+});
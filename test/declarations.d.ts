@@ -3,3 +3,4 @@
  */
 
 declare module 'mongo-in-memory';
+declare module 'sinon';
@@ -0,0 +1,82 @@
+import { expect } from 'chai';
+import { summarizeExplain } from '../src/explain';
+
+describe('Explain', () => {
+  describe('summarizeExplain', () => {
+    it('should summarize a find that uses an index', () => {
+      // Arrange
+      const winningPlan = {
+        stage: 'LIMIT',
+        inputStage: {
+          stage: 'FETCH',
+          inputStage: { stage: 'IXSCAN', indexName: 'name_1' },
+        },
+      };
+      const explained = {
+        queryPlanner: { winningPlan },
+        executionStats: { nReturned: 2, totalDocsExamined: 2, totalKeysExamined: 3, executionTimeMillis: 1 },
+      };
+
+      // Act
+      const summary = summarizeExplain('users', explained);
+
+      // Assert
+      expect(summary).to.deep.equal({
+        winningPlan,
+        indexes: ['name_1'],
+        collectionScan: false,
+        docsExamined: 2,
+        keysExamined: 3,
+        returned: 2,
+        executionTimeMS: 1,
+      });
+    });
+
+    it('should warn about collection scans', () => {
+      // Arrange
+      const explained = {
+        queryPlanner: { winningPlan: { stage: 'COLLSCAN' } },
+        executionStats: { nReturned: 1, totalDocsExamined: 1000, totalKeysExamined: 0, executionTimeMillis: 12 },
+      };
+
+      // Act
+      const summary = summarizeExplain('users', explained);
+
+      // Assert
+      expect(summary.indexes).to.deep.equal([]);
+      expect(summary.collectionScan).to.equal(true);
+      expect(summary.docsExamined).to.equal(1000);
+      expect(summary.warning).to.equal(`Query on collection 'users' scans the whole collection`);
+    });
+
+    it('should use the plan of the first stage of an aggregate', () => {
+      // Arrange
+      const winningPlan = {
+        stage: 'FETCH',
+        inputStage: {
+          stage: 'OR',
+          inputStages: [
+            { stage: 'IXSCAN', indexName: 'name_1' },
+            { stage: 'IXSCAN', indexName: 'email_1' },
+            { stage: 'IXSCAN', indexName: 'name_1' },
+          ],
+        },
+      };
+      const explained = {
+        stages: [
+          { $cursor: { queryPlanner: { winningPlan } } },
+          { $lookup: { from: 'cities' } },
+        ],
+      };
+
+      // Act
+      const summary = summarizeExplain('users', explained);
+
+      // Assert
+      expect(summary.winningPlan).to.equal(winningPlan);
+      expect(summary.indexes).to.deep.equal(['name_1', 'email_1']);
+      expect(summary.collectionScan).to.equal(false);
+      expect(summary.returned).to.be.undefined;
+    });
+  });
+});
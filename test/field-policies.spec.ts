@@ -0,0 +1,146 @@
+import { expect } from 'chai';
+import { ObjectID } from 'mongodb';
+import { applyFieldPolicies, checkFieldPolicies, FieldPolicies } from '../src/field-policies';
+import { queryInfo } from './util/query-info';
+
+describe('Field policies', () => {
+  const policies: FieldPolicies = {
+    users: { deny: ['password', 'address.ssn'] },
+    orders: { allow: ['_id', 'total', 'customer.name'] },
+    payments: (field, context) => context.isAdmin || field !== 'cardNumber',
+  };
+
+  describe('checkFieldPolicies', () => {
+    it('should allow queries on allowed fields', () => {
+      // Arrange
+      const info = queryInfo({
+        fields: { 'name': 1, 'address.city': 1 },
+        query: { name: { $eq: 'Jane' } },
+        sort: { 'address.city': 1 },
+      });
+
+      // Act / Assert
+      expect(() => checkFieldPolicies(info, policies)).not.to.throw();
+    });
+
+    it('should refuse selecting denied fields', () => {
+      // Act / Assert
+      expect(() => checkFieldPolicies(queryInfo({ fields: { password: 1 } }), policies))
+        .to.throw(`Can not query field 'password' on collection 'users'`);
+      expect(() => checkFieldPolicies(queryInfo({ fields: { 'address.ssn': 1 } }), policies))
+        .to.throw(`Can not query field 'address.ssn' on collection 'users'`);
+    });
+
+    it('should refuse filtering on denied fields inside logical operators and elemMatch', () => {
+      // Act / Assert
+      expect(() => checkFieldPolicies(queryInfo({ query: { $or: [{ password: { $eq: 'x' } }] } }), policies))
+        .to.throw(`Can not filter on field 'password' on collection 'users'`);
+      expect(() => checkFieldPolicies(queryInfo({ query: { address: { $elemMatch: { ssn: { $exists: true } } } } }), policies))
+        .to.throw(`Can not filter on field 'address.ssn' on collection 'users'`);
+    });
+
+    it('should refuse sorting on denied fields', () => {
+      // Act / Assert
+      expect(() => checkFieldPolicies(queryInfo({ sort: { password: 1 } }), policies))
+        .to.throw(`Can not sort on field 'password' on collection 'users'`);
+    });
+
+    it('should refuse fields missing from an allow list', () => {
+      // Arrange
+      const info = queryInfo({ collection: 'orders', fields: { 'total': 1, 'customer.email': 1 } });
+
+      // Act / Assert
+      expect(() => checkFieldPolicies(info, policies)).to.throw(`Can not query field 'customer.email' on collection 'orders'`);
+    });
+
+    it('should pass the context to predicates', () => {
+      // Arrange
+      const info = queryInfo({ collection: 'payments', fields: { cardNumber: 1 } });
+
+      // Act / Assert
+      expect(() => checkFieldPolicies(info, policies, { isAdmin: true })).not.to.throw();
+      expect(() => checkFieldPolicies(info, policies, { isAdmin: false }))
+        .to.throw(`Can not query field 'cardNumber' on collection 'payments'`);
+    });
+
+    it('should apply the policy of joined collections', () => {
+      // Arrange
+      const info = queryInfo({
+        collection: 'orders',
+        fields: { 'total': 1, 'customer.name': 1, 'customer.password': 1 },
+        lookups: [{ from: 'users', localField: 'customerId', foreignField: '_id', as: 'customer' }],
+      });
+      const orderPolicies: FieldPolicies = {
+        orders: { deny: ['secret'] },
+        users: policies.users,
+      };
+
+      // Act / Assert
+      expect(() => checkFieldPolicies(info, orderPolicies)).to.throw(`Can not query field 'customer.password' on collection 'orders'`);
+    });
+
+    it('should refuse writing denied fields', () => {
+      // Act / Assert
+      expect(() => checkFieldPolicies(queryInfo({ operation: 'insert', insert: [{ name: 'Jane', address: { ssn: '1' } }] }), policies))
+        .to.throw(`Can not write field 'address.ssn' on collection 'users'`);
+      expect(() => checkFieldPolicies(queryInfo({ operation: 'update', update: { $set: { password: 'x' } } }), policies))
+        .to.throw(`Can not write field 'password' on collection 'users'`);
+    });
+  });
+
+  describe('applyFieldPolicies', () => {
+    it('should remove denied subfields from parents returned in their entirety', () => {
+      // Arrange
+      const id = new ObjectID();
+      const results = [
+        { _id: id, address: { city: 'Miami', ssn: '123' } },
+        { _id: id, address: [{ city: 'Miami', ssn: '123' }] },
+      ];
+
+      // Act
+      const applied = applyFieldPolicies(results, queryInfo({ fields: { address: 1 } }), policies);
+
+      // Assert
+      expect(applied).to.deep.equal([
+        { _id: id, address: { city: 'Miami' } },
+        { _id: id, address: [{ city: 'Miami' }] },
+      ]);
+    });
+
+    it('should only keep allowed fields for allow lists', () => {
+      // Arrange
+      const results = { _id: 1, total: 10, secret: true, customer: { name: 'Jane', email: 'jane@example.com' } };
+
+      // Act
+      const applied = applyFieldPolicies(results, queryInfo({ collection: 'orders' }), policies);
+
+      // Assert
+      expect(applied).to.deep.equal({ _id: 1, total: 10, customer: { name: 'Jane' } });
+    });
+
+    it('should apply to the nodes of a page', () => {
+      // Arrange
+      const results = {
+        edges: [{ cursor: 'a', node: { cardNumber: '4111', amount: 5 } }],
+        pageInfo: { hasNextPage: false },
+      };
+
+      // Act
+      const applied = applyFieldPolicies(results, queryInfo({ collection: 'payments' }), policies, { isAdmin: false });
+
+      // Assert
+      expect(applied).to.deep.equal({
+        edges: [{ cursor: 'a', node: { amount: 5 } }],
+        pageInfo: { hasNextPage: false },
+      });
+    });
+
+    it('should leave results alone for collections without a policy', () => {
+      // Arrange
+      const results = [{ password: 'x' }];
+
+      // Act / Assert
+      expect(applyFieldPolicies(results, queryInfo({ collection: 'cities' }), policies)).to.equal(results);
+    });
+  });
+});
@@ -0,0 +1,50 @@
+import { expect } from 'chai';
+import { FilterOperator, walkFilter } from '../src/filter-walker';
+
+describe('Filter walker', () => {
+  describe('walkFilter', () => {
+    it('should visit operators inside logical operators and elemMatch', () => {
+      // Arrange
+      const query = {
+        name: 'Jane',
+        age: { $gte: 21, $lt: 65 },
+        $or: [
+          { 'address.city': { $regex: '^Mia', $options: 'i' } },
+          { tags: { $elemMatch: { label: { $eq: 'vip' }, $nor: [{ score: 0 }] } } },
+        ],
+      };
+      const visited: any[] = [];
+
+      // Act
+      walkFilter(query, ({ field, operator, logical }: FilterOperator) => visited.push([field, operator, logical]));
+
+      // Assert
+      expect(visited).to.deep.equal([
+        ['name', '$eq', false],
+        ['age', '$gte', false],
+        ['age', '$lt', false],
+        ['', '$or', true],
+        ['address.city', '$regex', false],
+        ['tags', '$elemMatch', false],
+        ['tags.label', '$eq', false],
+        ['tags', '$nor', true],
+        ['tags.score', '$eq', false],
+      ]);
+    });
+
+    it('should replace the values of operators in place', () => {
+      // Arrange
+      const query: any = { name: 'jane', age: { $in: [1, 2] }, $and: [{ city: 'miami' }] };
+
+      // Act
+      walkFilter(query, ({ value, logical, replace }) => {
+        if (!logical) {
+          replace(Array.isArray(value) ? value.map(item => item * 10) : value.toUpperCase());
+        }
+      });
+
+      // Assert
+      expect(query).to.deep.equal({ name: 'JANE', age: { $in: [10, 20] }, $and: [{ city: 'MIAMI' }] });
+    });
+  });
+});
@@ -1,5 +1,6 @@
 import gql from 'graphql-tag';
 import { expect } from 'chai';
+import { ObjectID } from 'mongodb';
 import { graphqlToMongo } from '../src/graphql-to-mongo';
 
 describe('GraphQL to Mongo', () => {
@@ -183,6 +184,82 @@ describe('GraphQL to Mongo', () => {
     ]);
   });
 
+  it('should support counting at the root', () => {
+    // Arrange
+    const query = gql`
+      {
+        users (limit: 10, count: true) {
+          firstName
+        }
+      }
+    `;
+
+    // Act
+    const result = graphqlToMongo(query);
+
+    // Assert
+    expect(result).to.deep.equal([
+      {
+        collection: 'users',
+        limit: 10,
+        count: true,
+        query: {},
+        fields: {
+          'firstName': 1,
+        },
+        sort: {},
+      }
+    ]);
+  });
+
+  it('should support querying a collection several times using aliases', () => {
+    // Arrange
+    const query = gql`
+      {
+        adults: users (limit: 5) {
+          name
+          age (gte: 18)
+        }
+        minors: users {
+          name
+          years: age (lt: 18)
+        }
+      }
+    `;
+
+    // Act
+    const result = graphqlToMongo(query);
+
+    // Assert
+    expect(result).to.deep.equal([
+      {
+        collection: 'users',
+        alias: 'adults',
+        limit: 5,
+        query: {
+          'age': { $gte: 18 },
+        },
+        fields: {
+          'name': 1,
+          'age': 1,
+        },
+        sort: {},
+      },
+      {
+        collection: 'users',
+        alias: 'minors',
+        query: {
+          'age': { $lt: 18 },
+        },
+        fields: {
+          'name': 1,
+          'age': 1,
+        },
+        sort: {},
+      }
+    ]);
+  });
+
   it('should not support arguments inside a document', () => {
     // Arrange
     const query = gql`
@@ -304,4 +381,1237 @@ describe('GraphQL to Mongo', () => {
       }
     ]);
   });
+
+  it('should match conditions against the same array element when using elemMatch', () => {
+    // Arrange
+    const query = gql`
+      {
+        users {
+          name
+          favoritePlaces (elemMatch: true) {
+            name (eq: "Park")
+            rating (gte: 4)
+            location {
+              city (eq: "Miami")
+            }
+          }
+        }
+      }
+    `;
+
+    // Act
+    const result = graphqlToMongo(query);
+
+    // Assert
+    expect(result).to.deep.equal([
+      {
+        collection: 'users',
+        query: {
+          'favoritePlaces': {
+            $elemMatch: {
+              'name': { $eq: 'Park' },
+              'rating': { $gte: 4 },
+              'location.city': { $eq: 'Miami' },
+            }
+          }
+        },
+        fields: {
+          'name': 1,
+          'favoritePlaces.name': 1,
+          'favoritePlaces.rating': 1,
+          'favoritePlaces.location.city': 1,
+        },
+        sort: {},
+      }
+    ]);
+  });
+
+  it('should support nested elemMatch', () => {
+    // Arrange
+    const query = gql`
+      {
+        users {
+          orders (elemMatch: true, include: true) {
+            status (eq: "shipped")
+            items (elemMatch: true) {
+              sku (eq: "ABC")
+              quantity (gt: 1)
+            }
+          }
+        }
+      }
+    `;
+
+    // Act
+    const result = graphqlToMongo(query);
+
+    // Assert
+    expect(result).to.deep.equal([
+      {
+        collection: 'users',
+        query: {
+          'orders': {
+            $elemMatch: {
+              'status': { $eq: 'shipped' },
+              'items': {
+                $elemMatch: {
+                  'sku': { $eq: 'ABC' },
+                  'quantity': { $gt: 1 },
+                }
+              }
+            }
+          }
+        },
+        fields: {
+          'orders': 1,
+        },
+        sort: {},
+      }
+    ]);
+  });
+
+  it('should not add an elemMatch without any conditions', () => {
+    // Arrange
+    const query = gql`
+      {
+        users {
+          favoritePlaces (elemMatch: true) {
+            name (eq: $name)
+          }
+        }
+      }
+    `;
+
+    // Act
+    const result = graphqlToMongo(query);
+
+    // Assert
+    expect(result).to.deep.equal([
+      {
+        collection: 'users',
+        query: {},
+        fields: {
+          'favoritePlaces.name': 1,
+        },
+        sort: {},
+      }
+    ]);
+  });
+
+  describe('when using logical operators', () => {
+    it('should combine fields annotated with @or', () => {
+      // Arrange
+      const query = gql`
+        {
+          users {
+            name (regex: $search) @or
+            email (regex: $search) @or
+            age (gte: 21)
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query, { search: 'jane' });
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'users',
+          query: {
+            'age': { $gte: 21 },
+            $or: [
+              { 'name': { $regex: 'jane' } },
+              { 'email': { $regex: 'jane' } },
+            ],
+          },
+          fields: {
+            'name': 1,
+            'email': 1,
+            'age': 1,
+          },
+          sort: {},
+        }
+      ]);
+    });
+
+    it('should combine multiple @or groups with $and', () => {
+      // Arrange
+      const query = gql`
+        {
+          users {
+            name (eq: "Jane") @or(group: "name")
+            nickname (eq: "Jane") @or(group: "name")
+            address {
+              city (eq: "Miami") @or(group: "place")
+              state (eq: "FL") @or(group: "place")
+            }
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query);
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'users',
+          query: {
+            $and: [
+              {
+                $or: [
+                  { 'name': { $eq: 'Jane' } },
+                  { 'nickname': { $eq: 'Jane' } },
+                ]
+              },
+              {
+                $or: [
+                  { 'address.city': { $eq: 'Miami' } },
+                  { 'address.state': { $eq: 'FL' } },
+                ]
+              },
+            ],
+          },
+          fields: {
+            'name': 1,
+            'nickname': 1,
+            'address.city': 1,
+            'address.state': 1,
+          },
+          sort: {},
+        }
+      ]);
+    });
+
+    it('should combine fields annotated with @nor', () => {
+      // Arrange
+      const query = gql`
+        {
+          users {
+            status (eq: "banned") @nor
+            deleted (eq: true) @nor(group: "other")
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query);
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'users',
+          query: {
+            $nor: [
+              { 'status': { $eq: 'banned' } },
+              { 'deleted': { $eq: true } },
+            ],
+          },
+          fields: {
+            'status': 1,
+            'deleted': 1,
+          },
+          sort: {},
+        }
+      ]);
+    });
+
+    it('should support @or inside elemMatch', () => {
+      // Arrange
+      const query = gql`
+        {
+          users {
+            favoritePlaces (elemMatch: true) {
+              name (eq: "Park") @or
+              rating (gte: 4) @or
+            }
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query);
+
+      // Assert
+      expect(result[0].query).to.deep.equal({
+        'favoritePlaces': {
+          $elemMatch: {
+            $or: [
+              { 'name': { $eq: 'Park' } },
+              { 'rating': { $gte: 4 } },
+            ]
+          }
+        }
+      });
+    });
+
+    it('should leave out grouped fields without filters', () => {
+      // Arrange
+      const query = gql`
+        {
+          users {
+            name (eq: $name) @or
+            email (eq: $email) @or
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query, { email: 'jane@example.com' });
+
+      // Assert
+      expect(result[0].query).to.deep.equal({
+        $or: [
+          { 'email': { $eq: 'jane@example.com' } },
+        ]
+      });
+    });
+
+    it('should not allow a field to use both @or and @nor', () => {
+      // Arrange
+      const query = gql`
+        {
+          users {
+            name (eq: "Jane") @or @nor
+          }
+        }
+      `;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query)).to.throw(`Field 'name' can not use more than one of: @or, @nor.`);
+    });
+  });
+
+  describe('when joining collections', () => {
+    it('should add a lookup for fields annotated with @lookup', () => {
+      // Arrange
+      const query = gql`
+        {
+          posts (limit: 10) {
+            title
+            author @lookup(from: "users", localField: "authorId", foreignField: "_id") {
+              firstName (eq: "Jane")
+              lastName
+            }
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query);
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'posts',
+          limit: 10,
+          lookups: [
+            {
+              from: 'users',
+              localField: 'authorId',
+              foreignField: '_id',
+              as: 'author',
+            }
+          ],
+          query: {
+            'author.firstName': { $eq: 'Jane' },
+          },
+          fields: {
+            'title': 1,
+            'author.firstName': 1,
+            'author.lastName': 1,
+          },
+          sort: {},
+        }
+      ]);
+    });
+
+    it('should require from, localField and foreignField', () => {
+      // Arrange
+      const query = gql`
+        {
+          posts {
+            author @lookup(from: "users") {
+              firstName
+            }
+          }
+        }
+      `;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query)).to.throw(
+        `The @lookup directive on field 'author' requires from, localField and foreignField.`
+      );
+    });
+  });
+
+  describe('when aggregating', () => {
+    it('should group by fields and compute accumulators', () => {
+      // Arrange
+      const query = gql`
+        {
+          orders @aggregate {
+            status @groupBy
+            total @sum
+            amount @avg @sortDesc
+            orders @count
+            createdAt (gte: $from)
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query, { from: 20170101 });
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'orders',
+          aggregate: {
+            groupBy: ['status'],
+            accumulators: {
+              'total': 'sum',
+              'amount': 'avg',
+              'orders': 'count',
+            },
+          },
+          query: {
+            'createdAt': { $gte: 20170101 },
+          },
+          fields: {
+            'status': 1,
+            'total': 1,
+            'amount': 1,
+            'orders': 1,
+            'createdAt': 1,
+          },
+          sort: {
+            'amount': -1,
+          },
+        }
+      ]);
+    });
+
+    it('should require @aggregate on the collection', () => {
+      // Arrange
+      const query = gql`
+        {
+          orders {
+            total @sum
+          }
+        }
+      `;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query)).to.throw(
+        `The @sum directive on field 'total' requires @aggregate on collection 'orders'.`
+      );
+    });
+
+    it('should not allow a field to be grouped and accumulated', () => {
+      // Arrange
+      const query = gql`
+        {
+          orders @aggregate {
+            total @groupBy @max
+          }
+        }
+      `;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query)).to.throw(
+        `Field 'total' can not use more than one of: @groupBy, @count, @sum, @avg, @min, @max.`
+      );
+    });
+
+    it('should not allow fields that are neither grouped, accumulated nor filtered', () => {
+      // Arrange
+      const query = gql`
+        {
+          users @aggregate {
+            status @groupBy
+            note
+          }
+        }
+      `;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query)).to.throw(
+        `Field 'note' must use @groupBy or one of: @count, @sum, @avg, @min, @max or filter when aggregating collection 'users'.`
+      );
+    });
+  });
+
+  describe('when setting read options', () => {
+    it('should set the read preference, read concern and collation from directives', () => {
+      // Arrange
+      const query = gql`
+        {
+          users @readPreference(mode: "secondary") @readConcern(level: "majority") @collation(locale: "en", strength: $strength) {
+            name @sort
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query, { strength: 2 });
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'users',
+          readPreference: 'secondary',
+          readConcern: 'majority',
+          collation: {
+            locale: 'en',
+            strength: 2,
+          },
+          query: {},
+          fields: {
+            'name': 1,
+          },
+          sort: {
+            'name': 1,
+          },
+        }
+      ]);
+    });
+
+    it('should require a valid read preference mode and read concern level', () => {
+      // Arrange
+      const preference = gql`{ users @readPreference(mode: "fastest") { name } }`;
+      const concern = gql`{ users @readConcern(level: "eventual") { name } }`;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(preference)).to.throw(
+        `The @readPreference directive on collection 'users' requires a mode of: primary, primaryPreferred, secondary, secondaryPreferred, nearest.`
+      );
+      expect(() => graphqlToMongo(concern)).to.throw(
+        `The @readConcern directive on collection 'users' requires a level of: local, available, majority, linearizable, snapshot.`
+      );
+    });
+
+    it('should require a locale for the collation', () => {
+      // Arrange
+      const query = gql`{ users @collation(strength: 2) { name } }`;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query)).to.throw(
+        `The @collation directive on collection 'users' requires a locale.`
+      );
+    });
+  });
+
+  describe('when searching', () => {
+    it('should search the text index and project the score', () => {
+      // Arrange
+      const query = gql`
+        {
+          posts (search: "graphql mongo", language: "en", caseSensitive: false) @sortByScore {
+            title
+            score
+            createdAt @sortDesc
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query);
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'posts',
+          query: {
+            $text: {
+              $search: 'graphql mongo',
+              $language: 'en',
+              $caseSensitive: false,
+            },
+          },
+          fields: {
+            'score': { $meta: 'textScore' },
+            'title': 1,
+            'createdAt': 1,
+          },
+          sort: {
+            'score': { $meta: 'textScore' },
+            'createdAt': -1,
+          },
+        }
+      ]);
+    });
+
+    it('should project the score without sorting on it', () => {
+      // Arrange
+      const query = gql`
+        {
+          posts (search: $text, limit: 10) {
+            title
+            score
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query, { text: 'graphql' });
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'posts',
+          limit: 10,
+          query: {
+            $text: { $search: 'graphql' },
+          },
+          fields: {
+            'title': 1,
+            'score': { $meta: 'textScore' },
+          },
+          sort: {},
+        }
+      ]);
+    });
+
+    it('should require a search for the search options and @sortByScore', () => {
+      // Arrange
+      const language = gql`{ posts (language: "en") { title } }`;
+      const sortByScore = gql`{ posts @sortByScore { title } }`;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(language)).to.throw(`Argument 'search' is required to search collection 'posts'.`);
+      expect(() => graphqlToMongo(sortByScore)).to.throw(`Argument 'search' is required to search collection 'posts'.`);
+    });
+
+    it('should not sort by score with cursor arguments', () => {
+      // Arrange
+      const query = gql`{ posts (search: "graphql", first: 10) @sortByScore { title } }`;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query)).to.throw(
+        `Can not combine @sortByScore with cursor arguments on collection 'posts'.`
+      );
+    });
+  });
+
+  describe('when using geospatial operators', () => {
+    const point = { type: 'Point', coordinates: [-80.19, 25.76] };
+
+    it('should find documents near a point within a distance', () => {
+      // Arrange
+      const query = gql`
+        {
+          stores (limit: 5) {
+            name
+            location (near: $point, maxDistance: 5000, minDistance: 10)
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query, { point });
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'stores',
+          limit: 5,
+          query: {
+            'location': {
+              $near: {
+                $geometry: point,
+                $maxDistance: 5000,
+                $minDistance: 10,
+              },
+            },
+          },
+          fields: {
+            'name': 1,
+            'location': 1,
+          },
+          sort: {},
+        }
+      ]);
+    });
+
+    it('should find documents within shapes and intersecting geometries', () => {
+      // Arrange
+      const zone = { type: 'Polygon', coordinates: [[[0, 0], [0, 1], [1, 1], [0, 0]]] };
+      const query = gql`
+        {
+          stores {
+            location (geoWithin: $box)
+            area (geoWithin: $zone)
+            routes (geoIntersects: $zone)
+            center (geoWithin: { centerSphere: [[-80.19, 25.76], 0.01] })
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query, { box: { box: [[0, 0], [1, 1]] }, zone });
+
+      // Assert
+      expect(result[0].query).to.deep.equal({
+        'location': { $geoWithin: { $box: [[0, 0], [1, 1]] } },
+        'area': { $geoWithin: { $geometry: zone } },
+        'routes': { $geoIntersects: { $geometry: zone } },
+        'center': { $geoWithin: { $centerSphere: [[-80.19, 25.76], 0.01] } },
+      });
+    });
+
+    it('should require near or nearSphere for distances', () => {
+      // Arrange
+      const query = gql`{ stores { location (maxDistance: 5000) } }`;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query)).to.throw(`Argument 'maxDistance' requires near or nearSphere.`);
+    });
+
+    it('should require a single shape for geoWithin', () => {
+      // Arrange
+      const query = gql`{ stores { location (geoWithin: $shape) } }`;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query, { shape: { box: [], polygon: [] } })).to.throw(
+        `Argument 'geoWithin' requires a GeoJSON geometry or one of: box, polygon, center, centerSphere.`
+      );
+    });
+
+    it('should not combine near with cursor arguments', () => {
+      // Arrange
+      const query = gql`{ stores (first: 10) { location (nearSphere: $point) } }`;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query, { point })).to.throw(
+        `Can not combine near or nearSphere with cursor arguments, @lookup or @aggregate on collection 'stores'.`
+      );
+    });
+  });
+
+  describe('when using cursors', () => {
+    it('should page forward with first and after', () => {
+      // Arrange
+      const query = gql`
+        {
+          users (first: 10, after: $after) {
+            name @sort
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query, { after: 'abc' });
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'users',
+          limit: 10,
+          cursor: {
+            after: 'abc',
+            backward: false,
+          },
+          query: {},
+          fields: {
+            'name': 1,
+          },
+          sort: {
+            'name': 1,
+          },
+        }
+      ]);
+    });
+
+    it('should page backward with last and before', () => {
+      // Arrange
+      const query = gql`
+        {
+          users (last: 5, before: "abc") {
+            name
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query);
+
+      // Assert
+      expect(result[0].limit).to.equal(5);
+      expect(result[0].cursor).to.deep.equal({
+        before: 'abc',
+        backward: true,
+      });
+    });
+
+    it('should not support combining cursors with limit or skip', () => {
+      // Arrange
+      const query = gql`
+        {
+          users (first: 5, skip: 10) {
+            name
+          }
+        }
+      `;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query)).to.throw(
+        `Can not combine limit or skip with cursor arguments on collection 'users'.`
+      );
+    });
+
+    it('should not support combining first and last', () => {
+      // Arrange
+      const query = gql`
+        {
+          users (first: 5, last: 5) {
+            name
+          }
+        }
+      `;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query)).to.throw(`Can not combine first and last on collection 'users'.`);
+    });
+
+    it('should require page sizes to be non-negative integers', () => {
+      // Arrange
+      const query = gql`
+        {
+          users (first: $first, last: $last) {
+            name
+          }
+        }
+      `;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query, { first: -1 })).to.throw(
+        `Argument 'first' on collection 'users' must be a non-negative integer.`
+      );
+      expect(() => graphqlToMongo(query, { last: 2.5 })).to.throw(
+        `Argument 'last' on collection 'users' must be a non-negative integer.`
+      );
+      expect(() => graphqlToMongo(query, { first: '10' })).to.throw(
+        `Argument 'first' on collection 'users' must be a non-negative integer.`
+      );
+      expect(graphqlToMongo(query, { first: 0 })[0].limit).to.equal(0);
+    });
+  });
+
+  describe('when using fragments and directives', () => {
+    it('should support named and inline fragments', () => {
+      // Arrange
+      const query = gql`
+        query {
+          users {
+            ...userName
+            ... on User {
+              address {
+                city (eq: "Miami")
+              }
+            }
+          }
+        }
+
+        fragment userName on User {
+          firstName
+          lastName @sort
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query);
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'users',
+          query: {
+            'address.city': { $eq: 'Miami' },
+          },
+          fields: {
+            'firstName': 1,
+            'lastName': 1,
+            'address.city': 1,
+          },
+          sort: {
+            'lastName': 1,
+          },
+        }
+      ]);
+    });
+
+    it('should leave out fields excluded by @include and @skip', () => {
+      // Arrange
+      const query = gql`
+        {
+          users {
+            firstName
+            lastName @include(if: $withLastName)
+            age (gte: 21) @skip(if: $allAges)
+            address @include(if: false) {
+              city (eq: "Miami")
+            }
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query, { withLastName: false, allAges: true });
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'users',
+          query: {},
+          fields: {
+            'firstName': 1,
+          },
+          sort: {},
+        }
+      ]);
+    });
+
+    it('should combine arguments of fields repeated across fragments', () => {
+      // Arrange
+      const query = gql`
+        {
+          users {
+            ...adults
+            ...young
+          }
+        }
+
+        fragment adults on User {
+          age (gte: 18) @sort
+        }
+
+        fragment young on User {
+          age (lt: 30)
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query);
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'users',
+          query: {
+            'age': { $gte: 18, $lt: 30 },
+          },
+          fields: {
+            'age': 1,
+          },
+          sort: {
+            'age': 1,
+          },
+        }
+      ]);
+    });
+
+    it('should not allow repeated fields with conflicting arguments', () => {
+      // Arrange
+      const query = gql`
+        {
+          users {
+            ...adults
+            ...children
+          }
+        }
+
+        fragment adults on User {
+          age (gte: 18)
+        }
+
+        fragment children on User {
+          age (gte: 0)
+        }
+      `;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query)).to.throw(
+        `Field 'users.age' is selected more than once with conflicting values for argument 'gte'.`
+      );
+    });
+  });
+
+  describe('when using BSON types', () => {
+    it('should convert values of fields annotated with a BSON type', () => {
+      // Arrange
+      const query = gql`
+        {
+          users {
+            _id (in: $ids) @objectId
+            createdAt (gte: "2017-01-17T05:00:00.000Z") @date
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query, { ids: ['5a1b2c3d4e5f6a7b8c9d0e1f'] });
+
+      // Assert
+      expect(result[0].query).to.deep.equal({
+        '_id': { $in: [new ObjectID('5a1b2c3d4e5f6a7b8c9d0e1f')] },
+        'createdAt': { $gte: new Date('2017-01-17T05:00:00.000Z') },
+      });
+    });
+
+    it('should not allow more than one BSON type on a field', () => {
+      // Arrange
+      const query = gql`
+        {
+          users {
+            _id (eq: "5a1b2c3d4e5f6a7b8c9d0e1f") @objectId @uuid
+          }
+        }
+      `;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query)).to.throw(
+        `Field '_id' can not use more than one of: @objectId, @date, @decimal, @uuid.`
+      );
+    });
+  });
+
+  describe('when using mutations', () => {
+    it('should support inserting documents', () => {
+      // Arrange
+      const query = gql`
+        mutation {
+          users (insert: [{ firstName: "Jane" }, { firstName: "John" }]) {
+            _id
+            firstName
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query);
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'users',
+          operation: 'insert',
+          insert: [
+            { firstName: 'Jane' },
+            { firstName: 'John' },
+          ],
+          query: {},
+          fields: {
+            '_id': 1,
+            'firstName': 1,
+          },
+          sort: {},
+        }
+      ]);
+    });
+
+    it('should support inserting documents from variables', () => {
+      // Arrange
+      const query = gql`
+        mutation insertUser($user: Object!) {
+          users (insert: $user) {
+            firstName
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query, { user: { firstName: 'Jane' } });
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'users',
+          operation: 'insert',
+          insert: { firstName: 'Jane' },
+          query: {},
+          fields: {
+            'firstName': 1,
+          },
+          sort: {},
+        }
+      ]);
+    });
+
+    it('should not support query arguments on a mutation', () => {
+      // Arrange
+      const query = gql`
+        mutation {
+          users (limit: 10, insert: { firstName: "Jane" }) {
+            firstName
+          }
+        }
+      `;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query)).to.throw(`Argument 'limit' is not a valid mutation argument.`);
+    });
+
+    it('should require a mutation argument', () => {
+      // Arrange
+      const query = gql`
+        mutation {
+          users {
+            firstName
+          }
+        }
+      `;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query)).to.throw(`Mutation on collection 'users' must specify one of: insert, delete, set, inc, unset, push, pull, addToSet.`);
+    });
+
+    it('should not support filters when inserting', () => {
+      // Arrange
+      const query = gql`
+        mutation {
+          users (insert: { firstName: "Jane" }) {
+            firstName (eq: "Jane")
+          }
+        }
+      `;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query)).to.throw(`Filters are not supported when inserting into collection 'users'.`);
+    });
+
+    it('should support updating documents with update operators', () => {
+      // Arrange
+      const query = gql`
+        mutation {
+          users (set: { status: "adult" }, inc: { visits: 1 }, unset: ["minor"], many: true) {
+            age (gte: 18)
+            address {
+              state (eq: "FL")
+            }
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query);
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'users',
+          operation: 'update',
+          update: {
+            $set: { status: 'adult' },
+            $inc: { visits: 1 },
+            $unset: { minor: '' },
+          },
+          many: true,
+          query: {
+            'age': { $gte: 18 },
+            'address.state': { $eq: 'FL' },
+          },
+          fields: {
+            'age': 1,
+            'address.state': 1,
+          },
+          sort: {},
+        }
+      ]);
+    });
+
+    it('should default to updating a single document', () => {
+      // Arrange
+      const query = gql`
+        mutation {
+          users (push: { tags: $tag }, addToSet: { roles: "admin" }, pull: { roles: "guest" }) {
+            _id (eq: $id)
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query, { id: 5, tag: 'new' });
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'users',
+          operation: 'update',
+          update: {
+            $push: { tags: 'new' },
+            $pull: { roles: 'guest' },
+            $addToSet: { roles: 'admin' },
+          },
+          many: false,
+          query: {
+            '_id': { $eq: 5 },
+          },
+          fields: {
+            '_id': 1,
+          },
+          sort: {},
+        }
+      ]);
+    });
+
+    it('should not support combining inserts with updates', () => {
+      // Arrange
+      const query = gql`
+        mutation {
+          users (insert: { firstName: "Jane" }, set: { firstName: "John" }) {
+            firstName
+          }
+        }
+      `;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query)).to.throw(`Can not combine insert with other mutation arguments on collection 'users'.`);
+    });
+
+    it('should support deleting documents', () => {
+      // Arrange
+      const query = gql`
+        mutation {
+          sessions (delete: true, many: true) {
+            expired (eq: true)
+          }
+        }
+      `;
+
+      // Act
+      const result = graphqlToMongo(query);
+
+      // Assert
+      expect(result).to.deep.equal([
+        {
+          collection: 'sessions',
+          operation: 'delete',
+          many: true,
+          query: {
+            'expired': { $eq: true },
+          },
+          fields: {
+            'expired': 1,
+          },
+          sort: {},
+        }
+      ]);
+    });
+
+    it('should not support combining deletes with updates', () => {
+      // Arrange
+      const query = gql`
+        mutation {
+          sessions (delete: true, set: { expired: true }) {
+            expired (eq: false)
+          }
+        }
+      `;
+
+      // Act / Assert
+      expect(() => graphqlToMongo(query)).to.throw(`Can not combine delete with update operators on collection 'sessions'.`);
+    });
+  });
 });
@@ -0,0 +1,45 @@
+import * as chaiAsPromised from 'chai-as-promised';
+import { expect, use } from 'chai';
+import { MongoClient } from 'mongodb';
+import { graphqlClient } from '../src/mongo-grqphql-client-factory';
+
+use(chaiAsPromised);
+
+describe('graphqlClient', () => {
+  describe('forUri', () => {
+    const connect = MongoClient.connect;
+    let connectOptions: any;
+
+    beforeEach(() => {
+      // The typings of connect do not allow replacing it, so it is swapped out through any
+      (<any>MongoClient).connect = (uri: string, options: any) => {
+        connectOptions = options;
+        return Promise.resolve({});
+      };
+    });
+
+    afterEach(() => {
+      (<any>MongoClient).connect = connect;
+    });
+
+    it('should only pass driver options to the connection', async () => {
+      // Act
+      // The typings of the driver only allow readConcern as an object, so the options are passed through any
+      await graphqlClient.forUri('mongodb://localhost:27017/test', <any>{
+        poolSize: 5,
+        whitelist: ['users'],
+        readPreference: 'secondary',
+        readConcern: 'majority',
+        collation: { locale: 'en' },
+      });
+
+      // Assert
+      expect(connectOptions).to.deep.equal({ poolSize: 5 });
+    });
+
+    it('should reject connection strings that are not strings', async () => {
+      // Act / Assert
+      await expect(graphqlClient.forUri(<any>42)).to.be.rejectedWith('Must pass a valid MongoDB connection string');
+    });
+  });
+});
@@ -2,8 +2,8 @@ import * as chaiAsPromised from 'chai-as-promised';
 import gql from 'graphql-tag';
 import { expect, use } from 'chai';
 import { mongoTestServer } from './util/mongo-test-server';
-import { Collection, Db } from 'mongodb';
-import { MongoGraphQLClient } from '../src';
+import { Collection, Db, ObjectID } from 'mongodb';
+import { inferSchema, MongoGraphQLClient } from '../src';
 import { graphqlClient } from '../src/mongo-grqphql-client-factory';
 
 use(chaiAsPromised);
@@ -45,6 +45,16 @@ describe('MongoGraphQLClient', () => {
       expect(client.getOptions().maxLimit).to.equal(10000);
     });
 
+    it('should default to not including counts', () => {
+      // Assert
+      expect(client.getOptions().includeCount).to.equal(false);
+    });
+
+    it('should default to maxDeleteCount of 100', () => {
+      // Assert
+      expect(client.getOptions().maxDeleteCount).to.equal(100);
+    });
+
     it('should throw if defaultLimit greater than maxLimit', () => {
       // Act/Assert
       expect(() => new MongoGraphQLClient(connection, {
@@ -96,6 +106,39 @@ describe('MongoGraphQLClient', () => {
         errors: undefined
       });
     });
+
+    it('should serialize results when configured to', async () => {
+      // Arrange
+      client = graphqlClient.forConnection(connection, {
+        serialization: { mode: 'json', renameId: true }
+      });
+      const places = await connection.collection('places');
+      await places.insertOne({
+        _id: new ObjectID('5a1b2c3d4e5f6a7b8c9d0e1f'),
+        name: 'Park',
+        openedAt: new Date('2017-01-17T05:00:00.000Z'),
+      });
+      const query = gql`
+        {
+          places {
+            name
+            openedAt
+          }
+        }
+      `;
+
+      // Act
+      const results = await client.findOne(query);
+
+      // Assert
+      expect(results.data).to.deep.equal({
+        places: {
+          id: '5a1b2c3d4e5f6a7b8c9d0e1f',
+          name: 'Park',
+          openedAt: '2017-01-17T05:00:00.000Z',
+        }
+      });
+    });
   });
 
   describe('find', () => {
@@ -464,6 +507,1505 @@ describe('MongoGraphQLClient', () => {
         // Act
         await expect(client.find(query)).to.be.rejectedWith(`Can not query collection 'cities'`);
       });
+
+      it('should throw if joining a non whitelisted collection', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users {
+              name
+              secret @lookup(from: "secrets", localField: "_id", foreignField: "userId") {
+                value
+              }
+            }
+          }
+        `;
+
+        // Act / Assert
+        await expect(client.find(query)).to.be.rejectedWith(`Can not query collection 'secrets'`);
+        await expect(client.findOne(query)).to.be.rejectedWith(`Can not query collection 'secrets'`);
+        expect(() => client.plan(query)).to.throw(`Can not query collection 'secrets'`);
+      });
+
+      it('should throw if trying to findOne from a non whitelisted collection', async () => {
+        // Arrange
+        const query = gql`
+          {
+            cities {
+              name
+            }
+          }
+        `;
+
+        // Act / Assert
+        await expect(client.findOne(query)).to.be.rejectedWith(`Can not query collection 'cities'`);
+      });
+    });
+
+    describe('when filtering arrays', () => {
+      beforeEach(async () => {
+        await users.updateOne({ _id: 1 }, {
+          $set: {
+            favoritePlaces: [
+              { name: 'Park', rating: 5 },
+              { name: 'Beach', rating: 2 },
+            ]
+          }
+        });
+        await users.updateOne({ _id: 2 }, {
+          $set: {
+            favoritePlaces: [
+              { name: 'Park', rating: 1 },
+              { name: 'Beach', rating: 5 },
+            ]
+          }
+        });
+      });
+
+      it('should match conditions against the same array element', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users {
+              _id
+              favoritePlaces (elemMatch: true) {
+                name (eq: "Park")
+                rating (gte: 4)
+              }
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data.users).to.deep.equal([
+          {
+            _id: 1,
+            favoritePlaces: [
+              { name: 'Park', rating: 5 },
+              { name: 'Beach', rating: 2 },
+            ]
+          }
+        ]);
+      });
+    });
+
+    describe('when using logical operators', () => {
+      it('should match documents matching any field annotated with @or', async () => {
+        // Arrange
+        const query = gql`
+          {
+            cities {
+              _id
+              name (eq: "Miami") @or
+              location (eq: "Tampa") @or
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data.cities).to.deep.equal([
+          {
+            _id: 1,
+            name: 'Miami',
+            location: 'Florida',
+          }
+        ]);
+      });
+
+      it('should exclude documents matching any field annotated with @nor', async () => {
+        // Arrange
+        const query = gql`
+          {
+            cities {
+              _id
+              name (eq: "Miami") @nor
+              location (eq: "Georgia") @nor
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data.cities.map((city: any) => city._id)).to.deep.equal([2, 3]);
+      });
+    });
+
+    describe('when joining collections', () => {
+      beforeEach(async () => {
+        const posts = await connection.collection('posts');
+        await posts.insertMany([
+          { _id: 1, title: 'First', authorId: 2 },
+          { _id: 2, title: 'Second', authorId: 5 },
+          { _id: 3, title: 'Third', authorId: 2 },
+        ]);
+      });
+
+      it('should join documents from another collection', async () => {
+        // Arrange
+        const query = gql`
+          {
+            posts (limit: 2) {
+              title @sort
+              author @lookup(from: "users", localField: "authorId", foreignField: "_id") {
+                name
+              }
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data.posts).to.deep.equal([
+          {
+            _id: 1,
+            title: 'First',
+            author: [{ name: 'User 2' }],
+          },
+          {
+            _id: 2,
+            title: 'Second',
+            author: [{ name: 'User 5' }],
+          },
+        ]);
+      });
+
+      it('should filter on joined documents', async () => {
+        // Arrange
+        const query = gql`
+          {
+            posts {
+              title
+              author @lookup(from: "users", localField: "authorId", foreignField: "_id") {
+                age (gte: 22)
+              }
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data.posts).to.deep.equal([
+          {
+            _id: 2,
+            title: 'Second',
+            author: [{ age: 22 }],
+          },
+        ]);
+      });
+
+      it('should only return the matching joined documents of a one-to-many join', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users {
+              name
+              posts @lookup(from: "posts", localField: "_id", foreignField: "authorId") {
+                title (eq: "First")
+              }
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data.users).to.deep.equal([
+          {
+            _id: 2,
+            name: 'User 2',
+            posts: [{ title: 'First' }],
+          },
+        ]);
+      });
+    });
+
+    describe('when aggregating', () => {
+      it('should return grouped rows', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users @aggregate {
+              address {
+                city @groupBy
+              }
+              age @avg
+              timeSinceLastLogin @min
+              users @count
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data.users).to.deep.equal([
+          {
+            address: { city: 'Miami' },
+            age: 20.5,
+            timeSinceLastLogin: 40,
+            users: 6,
+          }
+        ]);
+      });
+
+      it('should filter documents before grouping them', async () => {
+        // Arrange
+        const query = gql`
+          {
+            cities @aggregate {
+              location @groupBy
+              cities @count
+              name (ne: "Miami")
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data.cities).to.deep.equal([
+          {
+            location: 'Florida',
+            cities: 2,
+          }
+        ]);
+      });
+    });
+
+    describe('when using cursors', () => {
+      it('should return a connection for the first page', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users (first: 2) {
+              name
+              age @sortDesc
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        const { edges, pageInfo } = results.data.users;
+        expect(edges.map((edge: any) => edge.node)).to.deep.equal([
+          { _id: 6, name: 'User 6', age: 23 },
+          { _id: 5, name: 'User 5', age: 22 },
+        ]);
+        expect(pageInfo).to.deep.equal({
+          hasNextPage: true,
+          hasPreviousPage: false,
+          startCursor: edges[0].cursor,
+          endCursor: edges[1].cursor,
+        });
+      });
+
+      it('should continue after the end cursor of the previous page', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users (first: 4, after: $after) {
+              name
+              age @sortDesc
+            }
+          }
+        `;
+        const firstPage = await client.find(query);
+
+        // Act
+        const results = await client.find(query, { after: firstPage.data.users.pageInfo.endCursor });
+
+        // Assert
+        expect(results.data.users.edges.map((edge: any) => edge.node._id)).to.deep.equal([2, 1]);
+        expect(results.data.users.pageInfo.hasNextPage).to.equal(false);
+        expect(results.data.users.pageInfo.hasPreviousPage).to.equal(true);
+      });
+
+      it('should page backward from the end', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users (last: 2) {
+              name
+              age @sortDesc
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data.users.edges.map((edge: any) => edge.node._id)).to.deep.equal([2, 1]);
+        expect(results.data.users.pageInfo.hasPreviousPage).to.equal(true);
+        expect(results.data.users.pageInfo.hasNextPage).to.equal(false);
+      });
+
+      it('should sort on nested fields', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users (first: 1) {
+              name
+              address {
+                city @sort
+              }
+              age @sortDesc
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data.users.edges[0].node).to.deep.equal({
+          _id: 6,
+          name: 'User 6',
+          address: { city: 'Miami' },
+          age: 23,
+        });
+      });
+
+      it('should return an error for an invalid cursor', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users (first: 2, after: "garbage") {
+              name
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.errors[0].message).to.equal(`Invalid cursor 'garbage'`);
+      });
+    });
+
+    describe('when counting', () => {
+      it('should include the total count and whether there are more results', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users (limit: 2, skip: 1, count: true) {
+              name
+              age (gte: 19)
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data.users.length).to.equal(2);
+        expect(results._meta.users).to.deep.equal({
+          limit: 2,
+          skip: 1,
+          totalCount: 5,
+          hasMore: true,
+        });
+      });
+
+      it('should report when there are no more results', async () => {
+        // Arrange
+        const query = gql`
+          {
+            cities (count: true) {
+              name
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results._meta.cities).to.deep.equal({
+          limit: 100,
+          skip: 0,
+          totalCount: 3,
+          hasMore: false,
+        });
+      });
+
+      it('should count every collection when includeCount is set', async () => {
+        // Arrange
+        client = graphqlClient.forConnection(connection, { includeCount: true });
+        const query = gql`
+          {
+            users (limit: 1) {
+              name
+            }
+            cities (count: false) {
+              name
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results._meta.users.totalCount).to.equal(6);
+        expect(results._meta.cities.totalCount).to.equal(undefined);
+      });
+
+      it('should count all matches when using cursors', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users (first: 2, after: $after, count: true) {
+              name
+            }
+          }
+        `;
+        const firstPage = await client.find(query);
+
+        // Act
+        const results = await client.find(query, { after: firstPage.data.users.pageInfo.endCursor });
+
+        // Assert
+        expect(results._meta.users.totalCount).to.equal(6);
+        expect(results._meta.users.hasMore).to.equal(true);
+      });
+    });
+
+    describe('when using aliases', () => {
+      it('should return results for each alias', async () => {
+        // Arrange
+        const query = gql`
+          {
+            adults: users (count: true) {
+              _id
+              age (gte: 21)
+            }
+            minors: users {
+              _id
+              age (lt: 19)
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data).to.deep.equal({
+          adults: [
+            { _id: 4, age: 21 },
+            { _id: 5, age: 22 },
+            { _id: 6, age: 23 },
+          ],
+          minors: [
+            { _id: 1, age: 18 },
+          ],
+        });
+        expect(results._meta).to.deep.equal({
+          adults: { limit: 100, skip: 0, totalCount: 3, hasMore: false },
+          minors: { limit: 100, skip: 0 },
+        });
+      });
+
+      it('should report the alias of failed queries', async () => {
+        // Arrange
+        const query = gql`
+          {
+            adults: users {
+              name
+            }
+            firstPage: users (first: 2, after: "garbage") {
+              name
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.errors).to.deep.equal([
+          { collection: 'users', resultKey: 'firstPage', message: `Invalid cursor 'garbage'`, stack: undefined },
+        ]);
+      });
+    });
+
+    describe('when using BSON types', () => {
+      const id = '5a1b2c3d4e5f6a7b8c9d0e1f';
+
+      beforeEach(async () => {
+        const places = await connection.collection('places');
+        await places.insertOne({ _id: new ObjectID(id), name: 'Park' });
+      });
+
+      it('should convert values of fields annotated with a BSON type', async () => {
+        // Arrange
+        const query = gql`
+          {
+            places {
+              _id (eq: $id) @objectId
+              name
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query, { id });
+
+        // Assert
+        expect(results.data.places.length).to.equal(1);
+        expect(results.data.places[0].name).to.equal('Park');
+      });
+
+      it('should convert values of fields configured with a BSON type', async () => {
+        // Arrange
+        client = graphqlClient.forConnection(connection, {
+          fieldTypes: {
+            places: { _id: 'objectId' }
+          }
+        });
+        const query = gql`
+          {
+            places {
+              _id (in: [$id])
+              name
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query, { id });
+
+        // Assert
+        expect(results.data.places.length).to.equal(1);
+        expect(results.data.places[0].name).to.equal('Park');
+      });
+    });
+
+    describe('when validating against a schema', () => {
+      beforeEach(async () => {
+        await users.insertMany(generateUsers(3));
+        const { sdl } = await inferSchema(connection, { collections: ['users'] });
+        client = graphqlClient.forConnection(connection, { schema: sdl });
+      });
+
+      it('should query when the query is valid', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users {
+              name
+              age (gte: $age)
+              address {
+                city
+              }
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query, { age: 19 });
+
+        // Assert
+        expect(results.errors).to.be.undefined;
+        expect(results.data.users.length).to.equal(2);
+      });
+
+      it('should return errors with locations for unknown collections and fields', async () => {
+        // Arrange
+        const query = `{
+  users {
+    nmae
+  }
+  places {
+    name
+  }
+}`;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data).to.be.null;
+        expect(results.errors.map(error => error.message)).to.deep.equal([
+          'Cannot query field "nmae" on type "Users". Did you mean "name"?',
+          'Cannot query field "places" on type "Query".',
+        ]);
+        expect(results.errors.map(error => error.locations)).to.deep.equal([
+          [{ line: 3, column: 5 }],
+          [{ line: 5, column: 3 }],
+        ]);
+      });
+
+      it('should return errors for arguments of the wrong type', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users {
+              age (gte: $age)
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.findOne(query, { age: 'old' });
+
+        // Assert
+        expect(results.data).to.be.null;
+        expect(results.errors.length).to.equal(1);
+        expect(results.errors[0].message).to.contain('Argument "gte" has invalid value.');
+      });
+    });
+
+    describe('when using field policies', () => {
+      beforeEach(async () => {
+        await users.insertMany(generateUsers(3).map(user => ({ ...user, password: 'hash' })));
+        client = graphqlClient.forConnection(connection, {
+          fieldPolicies: {
+            users: { deny: ['password', 'address.zip'] }
+          }
+        });
+      });
+
+      it('should refuse selecting denied fields', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users {
+              name
+              password
+            }
+          }
+        `;
+
+        // Act / Assert
+        await expect(client.find(query)).to.be.rejectedWith(`Can not query field 'password' on collection 'users'`);
+      });
+
+      it('should refuse filtering on denied fields', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users {
+              name
+              address {
+                zip (eq: 33173)
+              }
+            }
+          }
+        `;
+
+        // Act / Assert
+        await expect(client.find(query)).to.be.rejectedWith(`Can not filter on field 'address.zip' on collection 'users'`);
+      });
+
+      it('should not return denied subfields of included parents', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users {
+              name
+              address (include: true) {
+                city (eq: "Miami")
+              }
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data.users.length).to.equal(3);
+        results.data.users.forEach((user: any) => {
+          expect(user.address.city).to.equal('Miami');
+          expect(user.address).not.to.have.property('zip');
+          expect(user).not.to.have.property('password');
+        });
+      });
+
+      it('should pass the context to predicates', async () => {
+        // Arrange
+        client = graphqlClient.forConnection(connection, {
+          fieldPolicies: {
+            users: (field, context) => context.role === 'admin' || field !== 'password'
+          }
+        });
+        const query = gql`
+          {
+            users {
+              password
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query, {}, { role: 'admin' });
+
+        // Assert
+        expect(results.data.users[0].password).to.equal('hash');
+        await expect(client.find(query, {}, { role: 'support' }))
+          .to.be.rejectedWith(`Can not query field 'password' on collection 'users'`);
+      });
+    });
+
+    describe('when using collection filters', () => {
+      beforeEach(async () => {
+        await users.insertMany(generateUsers(4).map(user => ({ ...user, tenantId: user._id % 2 })));
+        client = graphqlClient.forConnection(connection, {
+          collectionFilters: {
+            users: context => ({ tenantId: context.tenantId })
+          }
+        });
+      });
+
+      it('should only return documents matching the filter for the context', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users {
+              name
+              tenantId (eq: 0)
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query, {}, { tenantId: 1 });
+
+        // Assert
+        expect(results.data.users).to.deep.equal([]);
+      });
+
+      it('should combine the filter with the filters of the query', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users (count: true) {
+              name
+              age (gte: 19)
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query, {}, { tenantId: 1 });
+
+        // Assert
+        expect(results.data.users.map((user: any) => user.name)).to.deep.equal(['User 3']);
+        expect(results._meta.users.totalCount).to.equal(1);
+      });
+
+      it('should apply the filter to writes', async () => {
+        // Arrange
+        const mutation = gql`
+          mutation {
+            users (set: { verified: true }, many: true) {
+              _id
+            }
+          }
+        `;
+
+        // Act
+        await client.mutate(mutation, {}, { tenantId: 0 });
+
+        // Assert
+        const verified = await users.find({ verified: true }).toArray();
+        expect(verified.map(user => user._id)).to.deep.equal([2, 4]);
+      });
+    });
+
+    describe('when limiting queries', () => {
+      beforeEach(async () => {
+        await users.insertMany(generateUsers(3));
+      });
+
+      it('should return structured errors for queries over the limits', async () => {
+        // Arrange
+        client = graphqlClient.forConnection(connection, {
+          queryLimits: {
+            maxDepth: 1,
+            regex: 'anchored'
+          }
+        });
+        const query = gql`
+          {
+            users {
+              name (regex: "User")
+              address {
+                city
+              }
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data).to.be.null;
+        expect(results.errors.map(error => error.limit)).to.deep.equal(['maxDepth', 'regex']);
+      });
+
+      it('should query when the query is within the limits', async () => {
+        // Arrange
+        client = graphqlClient.forConnection(connection, {
+          queryLimits: {
+            maxCollections: 1,
+            maxCost: 20
+          }
+        });
+        const query = gql`
+          {
+            users (limit: 10) {
+              name
+              age
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.errors).to.be.undefined;
+        expect(results.data.users.length).to.equal(3);
+      });
+
+      it('should use the default limit for the cost', async () => {
+        // Arrange
+        client = graphqlClient.forConnection(connection, {
+          queryLimits: {
+            maxCost: 100
+          }
+        });
+        const query = gql`
+          {
+            users {
+              name
+              age
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.errors.map(error => error.message)).to.deep.equal([
+          'Query has a cost of 200, more than the maximum of 100'
+        ]);
+      });
+    });
+
+    describe('when limiting time', () => {
+      beforeEach(async () => {
+        await users.insertMany(generateUsers(3));
+        await cities.insertOne({ name: 'Miami' });
+      });
+
+      const abortedSignal = () => ({
+        aborted: true,
+        addEventListener: (): void => undefined,
+        removeEventListener: (): void => undefined,
+      });
+
+      it('should query within the time limit', async () => {
+        // Arrange
+        client = graphqlClient.forConnection(connection, { maxTimeMS: 5000 });
+        const query = gql`
+          {
+            users (count: true) {
+              name
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query, {}, null, { maxTimeMS: 10000 });
+
+        // Assert
+        expect(client.getOptions().maxTimeMS).to.equal(5000);
+        expect(results.errors).to.be.undefined;
+        expect(results.data.users.length).to.equal(3);
+      });
+
+      it('should return an error for every collection when aborted', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users {
+              name
+            }
+            cities {
+              name
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query, {}, null, { signal: abortedSignal() });
+
+        // Assert
+        expect(results.errors.map(error => error.message)).to.deep.equal([
+          `Query on collection 'users' was aborted`,
+          `Query on collection 'cities' was aborted`,
+        ]);
+      });
+    });
+
+    describe('when setting read options', () => {
+      beforeEach(async () => {
+        await users.insertMany([{ name: 'bob' }, { name: 'Alice' }, { name: 'carol' }]);
+      });
+
+      it('should sort without case using a collation directive', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users @collation(locale: "en", strength: 2) {
+              name @sort
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data.users.map((user: any) => user.name)).to.deep.equal(['Alice', 'bob', 'carol']);
+      });
+
+      it('should use the collation of the collection', async () => {
+        // Arrange
+        client = graphqlClient.forConnection(connection, {
+          readPreference: 'primaryPreferred',
+          collectionReadOptions: { users: { collation: { locale: 'en', strength: 2 } } },
+        });
+        const query = gql`
+          {
+            users {
+              name (eq: "ALICE")
+            }
+          }
+        `;
+
+        // Act
+        const result = await client.findOne(query);
+
+        // Assert
+        expect(result.data.users.name).to.equal('Alice');
+      });
+    });
+
+    describe('when searching', () => {
+      beforeEach(async () => {
+        await users.createIndex({ name: 'text', bio: 'text' });
+        await users.insertMany([
+          { _id: 1, name: 'Jane', bio: 'Likes mongo' },
+          { _id: 2, name: 'John', bio: 'Likes graphql and mongo, mongo, mongo' },
+          { _id: 3, name: 'Jack', bio: 'Likes neither' },
+        ]);
+      });
+
+      it('should return matching documents sorted by score', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users (search: "mongo") @sortByScore {
+              name
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data.users.map((user: any) => user.name)).to.deep.equal(['John', 'Jane']);
+        expect(results.data.users[0].score).to.be.greaterThan(results.data.users[1].score);
+      });
+    });
+
+    describe('when using geospatial operators', () => {
+      let stores: Collection<any>;
+
+      beforeEach(async () => {
+        stores = await connection.collection('stores');
+        await stores.createIndex({ location: '2dsphere' });
+        await stores.insertMany([
+          { name: 'Far', location: { type: 'Point', coordinates: [-80.30, 25.76] } },
+          { name: 'Near', location: { type: 'Point', coordinates: [-80.19, 25.76] } },
+          { name: 'Nearer', location: { type: 'Point', coordinates: [-80.191, 25.76] } },
+        ]);
+      });
+
+      it('should return the closest documents first up to the limit', async () => {
+        // Arrange
+        const query = gql`
+          {
+            stores (limit: 2) {
+              name
+              location (near: $point, maxDistance: 5000)
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query, { point: { type: 'Point', coordinates: [-80.192, 25.76] } });
+
+        // Assert
+        expect(results.data.stores.map((store: any) => store.name)).to.deep.equal(['Nearer', 'Near']);
+      });
+    });
+
+    describe('when explaining', () => {
+      beforeEach(async () => {
+        await users.createIndex({ name: 1 });
+        await users.insertMany(generateUsers(3));
+        await cities.insertOne({ name: 'Miami' });
+      });
+
+      it('should summarize how every collection is queried', async () => {
+        // Arrange
+        const query = gql`
+          {
+            users {
+              name (eq: "User 1")
+            }
+            cities {
+              name (eq: "Miami")
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.explain(query);
+
+        // Assert
+        expect(results.errors).to.be.undefined;
+        expect(results.data.users.indexes).to.deep.equal(['name_1']);
+        expect(results.data.users.collectionScan).to.equal(false);
+        expect(results.data.cities.collectionScan).to.equal(true);
+        expect(results.data.cities.warning).to.equal(`Query on collection 'cities' scans the whole collection`);
+      });
+
+      it('should reject collection scans when configured to', async () => {
+        // Arrange
+        client = graphqlClient.forConnection(connection, { collectionScans: 'reject' });
+        const query = gql`
+          {
+            users {
+              age (gt: 18)
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results).to.deep.equal({
+          data: null,
+          errors: [
+            { message: `Query on collection 'users' scans the whole collection` },
+          ],
+        });
+      });
+    });
+
+    describe('when planning', () => {
+      it('should render the queries without running them', async () => {
+        // Arrange
+        client = graphqlClient.forConnection(connection, {
+          collectionFilters: { users: context => ({ tenantId: context.tenantId }) },
+        });
+        const query = gql`
+          {
+            users (limit: 10) {
+              name (eq: "Jane") @sort
+            }
+          }
+        `;
+
+        // Act
+        const results = client.plan(query, {}, { tenantId: 1 });
+
+        // Assert
+        expect(results.errors).to.be.undefined;
+        expect(results.data.users.shell).to.equal(
+          'db.users.find({ "$and": [{ "tenantId": 1 }, { "name": { "$eq": "Jane" } }] }, { "name": 1 }).sort({ "name": 1 }).limit(10)'
+        );
+        expect(await users.count({})).to.equal(0);
+      });
+
+      it('should return an error for a query that can not be rendered', () => {
+        // Arrange
+        const query = gql`
+          {
+            users (first: 2, after: "garbage") {
+              name @sort
+            }
+            cities {
+              name
+            }
+          }
+        `;
+
+        // Act
+        const results = client.plan(query);
+
+        // Assert
+        expect(results.data.users).to.be.null;
+        expect(results.data.cities.shell).to.equal('db.cities.find({}, { "name": 1 }).limit(100)');
+        expect(results.errors).to.deep.equal([
+          { collection: 'users', resultKey: 'users', message: `Invalid cursor 'garbage'`, stack: undefined },
+        ]);
+      });
+    });
+
+    describe('when caching', () => {
+      beforeEach(async () => {
+        await users.insertMany(generateUsers(3));
+        await cities.insertOne({ name: 'Miami' });
+      });
+
+      const query = gql`
+        {
+          users {
+            name
+          }
+          cities {
+            name
+          }
+        }
+      `;
+
+      it('should serve repeated queries from the cache', async () => {
+        // Arrange
+        client = graphqlClient.forConnection(connection, { cache: { collections: { cities: 0 } } });
+        await client.find(query);
+        await users.deleteMany({});
+        await cities.deleteMany({});
+
+        // Act
+        const results = await client.find(query);
+
+        // Assert
+        expect(results.data.users.length).to.equal(3);
+        expect(results._meta.users.cached).to.equal(true);
+        expect(results.data.cities).to.deep.equal([]);
+        expect(results._meta.cities.cached).to.be.undefined;
+      });
+
+      it('should not serve cached results when bypassed', async () => {
+        // Arrange
+        client = graphqlClient.forConnection(connection, { cache: {} });
+        await client.find(query);
+        await users.deleteMany({});
+
+        // Act
+        const results = await client.find(query, {}, null, { cache: false });
+        const cachedResults = await client.find(query);
+
+        // Assert
+        expect(results.data.users).to.deep.equal([]);
+        expect(results._meta.users.cached).to.be.undefined;
+        expect(cachedResults.data.users).to.deep.equal([]);
+        expect(cachedResults._meta.users.cached).to.equal(true);
+      });
+    });
+  });
+
+  describe('mutate', () => {
+    it('should throw an error if passed a query', async () => {
+      // Arrange
+      const query = gql`
+        {
+          users {
+            _id
+          }
+        }
+      `;
+
+      // Act / Assert
+      await expect(client.mutate(query)).to.be.rejectedWith('Must pass a mutation to mutate');
+    });
+
+    it('should not allow find to perform mutations', async () => {
+      // Arrange
+      const mutation = gql`
+        mutation {
+          users (insert: { _id: 1 }) {
+            _id
+          }
+        }
+      `;
+
+      // Act / Assert
+      await expect(client.find(mutation)).to.be.rejectedWith('Mutations must be performed using mutate');
+    });
+
+    describe('when inserting', () => {
+      it('should insert a single document', async () => {
+        // Arrange
+        const mutation = gql`
+          mutation {
+            users (insert: { _id: 1, name: "User 1", age: 18 }) {
+              _id
+              name
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.mutate(mutation);
+
+        // Assert
+        expect(results).to.deep.equal({
+          data: {
+            users: [
+              {
+                _id: 1,
+                name: 'User 1',
+              }
+            ]
+          },
+          errors: undefined,
+          _meta: {
+            users: {
+              insertedCount: 1
+            }
+          }
+        });
+        expect(await users.count({})).to.equal(1);
+      });
+
+      it('should insert multiple documents from variables', async () => {
+        // Arrange
+        const mutation = gql`
+          mutation {
+            users (insert: $users) {
+              _id
+              address {
+                city
+              }
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.mutate(mutation, { users: generateUsers(3) });
+
+        // Assert
+        expect(results.data.users).to.deep.equal([
+          {
+            _id: 1,
+            address: { city: 'Miami' },
+          },
+          {
+            _id: 2,
+            address: { city: 'Miami' },
+          },
+          {
+            _id: 3,
+            address: { city: 'Miami' },
+          },
+        ]);
+        expect(await users.count({})).to.equal(3);
+      });
+
+      it('should return an error if the insert fails', async () => {
+        // Arrange
+        await users.insertMany(generateUsers(1));
+        const mutation = gql`
+          mutation {
+            users (insert: { _id: 1 }) {
+              _id
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.mutate(mutation);
+
+        // Assert
+        expect(results.data.users).to.deep.equal([]);
+        expect(results.errors.length).to.equal(1);
+        expect(results.errors[0].collection).to.equal('users');
+      });
+    });
+
+    describe('when updating', () => {
+      beforeEach(async () => {
+        await users.insertMany(generateUsers(6));
+      });
+
+      it('should update a single matching document', async () => {
+        // Arrange
+        const mutation = gql`
+          mutation {
+            users (set: { name: "Updated" }, inc: { age: 1 }) {
+              age (gte: 21)
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.mutate(mutation);
+
+        // Assert
+        expect(results).to.deep.equal({
+          data: {
+            users: null
+          },
+          errors: undefined,
+          _meta: {
+            users: {
+              matchedCount: 1,
+              modifiedCount: 1,
+            }
+          }
+        });
+        expect(await users.findOne({ _id: 4 })).to.include({ name: 'Updated', age: 22 });
+        expect(await users.count({ name: 'Updated' })).to.equal(1);
+      });
+
+      it('should update all matching documents when many is set', async () => {
+        // Arrange
+        const mutation = gql`
+          mutation {
+            users (unset: ["address"], many: true) {
+              age (lt: 21)
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.mutate(mutation);
+
+        // Assert
+        expect(results._meta.users).to.deep.equal({
+          matchedCount: 3,
+          modifiedCount: 3,
+        });
+        expect(await users.count({ address: { $exists: false } })).to.equal(3);
+      });
+    });
+
+    describe('when deleting', () => {
+      beforeEach(async () => {
+        await users.insertMany(generateUsers(6));
+        client = graphqlClient.forConnection(connection, {
+          allowDelete: ['users'],
+          maxDeleteCount: 3,
+        });
+      });
+
+      it('should delete a single matching document', async () => {
+        // Arrange
+        const mutation = gql`
+          mutation {
+            users (delete: true) {
+              _id (eq: 2)
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.mutate(mutation);
+
+        // Assert
+        expect(results._meta.users).to.deep.equal({ deletedCount: 1 });
+        expect(await users.count({})).to.equal(5);
+      });
+
+      it('should delete all matching documents when many is set', async () => {
+        // Arrange
+        const mutation = gql`
+          mutation {
+            users (delete: true, many: true) {
+              age (gte: 21)
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.mutate(mutation);
+
+        // Assert
+        expect(results._meta.users).to.deep.equal({ deletedCount: 3 });
+        expect(await users.count({})).to.equal(3);
+      });
+
+      it('should not delete anything if too many documents match', async () => {
+        // Arrange
+        const mutation = gql`
+          mutation {
+            users (delete: true, many: true) {
+              age (gte: 20)
+            }
+          }
+        `;
+
+        // Act
+        const results = await client.mutate(mutation);
+
+        // Assert
+        expect(results.errors[0].message).to.equal(
+          `Delete on collection 'users' would affect 4 documents which exceeds the maximum of 3`
+        );
+        expect(await users.count({})).to.equal(6);
+      });
+
+      it('should throw if deleting without a filter', async () => {
+        // Arrange
+        const mutation = gql`
+          mutation {
+            users (delete: true) {
+              _id
+            }
+          }
+        `;
+
+        // Act / Assert
+        await expect(client.mutate(mutation)).to.be.rejectedWith(
+          `Can not delete from collection 'users' without a filter`
+        );
+      });
+
+      it('should throw if deleting from a collection not allowed to be deleted from', async () => {
+        // Arrange
+        const mutation = gql`
+          mutation {
+            cities (delete: true) {
+              _id (eq: 1)
+            }
+          }
+        `;
+
+        // Act / Assert
+        await expect(client.mutate(mutation)).to.be.rejectedWith(`Can not delete from collection 'cities'`);
+      });
     });
   });
 });
@@ -0,0 +1,365 @@
+import * as sinon from 'sinon';
+import { expect } from 'chai';
+import { buildPipeline, CancellationSignal, findMultiple, pageQuery } from '../src/mongo-queries';
+import { queryInfo } from './util/query-info';
+
+describe('Mongo Queries', () => {
+  describe('buildPipeline', () => {
+    const lookups = [
+      {
+        from: 'users',
+        localField: 'authorId',
+        foreignField: '_id',
+        as: 'author',
+      }
+    ];
+
+    it('should filter, sort and page before joining when possible', () => {
+      // Act
+      const pipeline = buildPipeline({
+        collection: 'posts',
+        lookups,
+        limit: 10,
+        skip: 20,
+        query: {
+          'title': { $regex: 'GraphQL' },
+        },
+        fields: {
+          'title': 1,
+          'author.firstName': 1,
+        },
+        sort: {
+          'createdAt': -1,
+        },
+      });
+
+      // Assert
+      expect(pipeline).to.deep.equal([
+        { $match: { 'title': { $regex: 'GraphQL' } } },
+        { $sort: { 'createdAt': -1 } },
+        { $skip: 20 },
+        { $limit: 10 },
+        { $lookup: { from: 'users', localField: 'authorId', foreignField: '_id', as: 'author' } },
+        { $project: { 'title': 1, 'author.firstName': 1 } },
+      ]);
+    });
+
+    it('should filter and page after joining when depending on joined fields', () => {
+      // Act
+      const pipeline = buildPipeline({
+        collection: 'posts',
+        lookups,
+        limit: 10,
+        query: {
+          'title': { $regex: 'GraphQL' },
+          'author.firstName': { $eq: 'Jane' },
+        },
+        fields: {
+          'title': 1,
+          'author.firstName': 1,
+        },
+        sort: {
+          'author.lastName': 1,
+        },
+      });
+
+      // Assert
+      expect(pipeline).to.deep.equal([
+        { $match: { 'title': { $regex: 'GraphQL' } } },
+        { $lookup: { from: 'users', localField: 'authorId', foreignField: '_id', as: 'author' } },
+        { $match: { 'author.firstName': { $eq: 'Jane' } } },
+        { $unwind: { path: '$author', preserveNullAndEmptyArrays: true } },
+        { $match: { 'author.firstName': { $eq: 'Jane' } } },
+        { $group: { _id: '$_id', title: { $first: '$title' }, author: { $push: '$author' } } },
+        { $sort: { 'author.lastName': 1 } },
+        { $limit: 10 },
+        { $project: { 'title': 1, 'author.firstName': 1 } },
+      ]);
+    });
+
+    it('should keep the text score and order when filtering joined documents', () => {
+      // Act
+      const pipeline = buildPipeline({
+        collection: 'posts',
+        lookups: [{ from: 'users', localField: 'authorId', foreignField: '_id', as: 'meta.author' }],
+        query: {
+          '$text': { $search: 'graphql' },
+          'meta.author.firstName': { $eq: 'Jane' },
+        },
+        fields: {
+          'title': 1,
+          'meta.author.firstName': 1,
+          'score': { $meta: 'textScore' },
+        },
+        sort: {
+          'score': { $meta: 'textScore' },
+        },
+      });
+
+      // Assert
+      expect(pipeline).to.deep.equal([
+        { $match: { '$text': { $search: 'graphql' } } },
+        { $lookup: { from: 'users', localField: 'authorId', foreignField: '_id', as: 'meta.author' } },
+        { $match: { 'meta.author.firstName': { $eq: 'Jane' } } },
+        { $addFields: { 'score': { $meta: 'textScore' } } },
+        { $unwind: { path: '$meta.author', preserveNullAndEmptyArrays: true } },
+        { $match: { 'meta.author.firstName': { $eq: 'Jane' } } },
+        {
+          $group: {
+            _id: '$_id',
+            title: { $first: '$title' },
+            meta: { $first: '$meta' },
+            score: { $first: '$score' },
+            meta_author: { $push: '$meta.author' },
+          }
+        },
+        { $addFields: { 'meta.author': '$meta_author' } },
+        { $sort: { 'score': -1 } },
+        { $project: { 'title': 1, 'meta.author.firstName': 1, 'score': 1 } },
+      ]);
+    });
+
+    it('should group documents when aggregating', () => {
+      // Act
+      const pipeline = buildPipeline({
+        collection: 'orders',
+        aggregate: {
+          groupBy: ['status', 'address.state'],
+          accumulators: {
+            'total': 'sum',
+            'orders': 'count',
+          },
+        },
+        limit: 100,
+        query: {
+          'createdAt': { $gte: 20170101 },
+        },
+        fields: {
+          'status': 1,
+          'address.state': 1,
+          'total': 1,
+          'orders': 1,
+          'createdAt': 1,
+        },
+        sort: {
+          'total': -1,
+        },
+      });
+
+      // Assert
+      expect(pipeline).to.deep.equal([
+        { $match: { 'createdAt': { $gte: 20170101 } } },
+        {
+          $group: {
+            _id: { status: '$status', address_state: '$address.state' },
+            total: { $sum: '$total' },
+            orders: { $sum: 1 },
+          }
+        },
+        {
+          $project: {
+            _id: 0,
+            'status': '$_id.status',
+            'address.state': '$_id.address_state',
+            'total': '$total',
+            'orders': '$orders',
+          }
+        },
+        { $sort: { 'total': -1 } },
+        { $limit: 100 },
+      ]);
+    });
+
+    it('should group all documents together without any group by fields', () => {
+      // Act
+      const pipeline = buildPipeline({
+        collection: 'orders',
+        aggregate: {
+          groupBy: [],
+          accumulators: {
+            'amount': 'max',
+          },
+        },
+        query: {},
+        fields: {
+          'amount': 1,
+        },
+        sort: {},
+      });
+
+      // Assert
+      expect(pipeline).to.deep.equal([
+        { $group: { _id: null, amount: { $max: '$amount' } } },
+        { $project: { _id: 0, 'amount': '$amount' } },
+      ]);
+    });
+
+    it('should search before joining even when filtering on joined fields', () => {
+      // Act
+      const pipeline = buildPipeline({
+        collection: 'posts',
+        lookups,
+        query: {
+          '$text': { $search: 'graphql' },
+          'author.firstName': { $eq: 'Jane' },
+        },
+        fields: {
+          'title': 1,
+          'score': { $meta: 'textScore' },
+        },
+        sort: {
+          'score': { $meta: 'textScore' },
+        },
+      });
+
+      // Assert
+      expect(pipeline).to.deep.equal([
+        { $match: { '$text': { $search: 'graphql' } } },
+        { $lookup: { from: 'users', localField: 'authorId', foreignField: '_id', as: 'author' } },
+        { $match: { 'author.firstName': { $eq: 'Jane' } } },
+        { $sort: { 'score': { $meta: 'textScore' } } },
+        { $project: { 'title': 1, 'score': { $meta: 'textScore' } } },
+      ]);
+    });
+
+    it('should split the conditions of $and so that mandatory filters and searches come first', () => {
+      // Act
+      const pipeline = buildPipeline({
+        collection: 'posts',
+        lookups,
+        limit: 10,
+        query: {
+          $and: [
+            { 'tenantId': 1 },
+            { '$text': { $search: 'graphql' }, 'title': { $exists: true } },
+            { 'author.firstName': { $eq: 'Jane' } },
+            { $or: [{ 'draft': false }, { 'author.admin': true }] },
+          ],
+        },
+        fields: {
+          'title': 1,
+        },
+        sort: {},
+      });
+
+      // Assert
+      expect(pipeline).to.deep.equal([
+        {
+          $match: {
+            $and: [
+              { 'tenantId': 1 },
+              { '$text': { $search: 'graphql' }, 'title': { $exists: true } },
+            ],
+          },
+        },
+        { $lookup: { from: 'users', localField: 'authorId', foreignField: '_id', as: 'author' } },
+        {
+          $match: {
+            $and: [
+              { 'author.firstName': { $eq: 'Jane' } },
+              { $or: [{ 'draft': false }, { 'author.admin': true }] },
+            ],
+          },
+        },
+        { $limit: 10 },
+        { $project: { 'title': 1 } },
+      ]);
+    });
+
+    it('should page before joining when the mandatory filter is the only condition', () => {
+      // Act
+      const pipeline = buildPipeline({
+        collection: 'posts',
+        lookups,
+        limit: 10,
+        query: {
+          $and: [{ 'tenantId': 1 }, { 'title': { $regex: 'GraphQL' } }],
+        },
+        fields: {},
+        sort: {},
+      });
+
+      // Assert
+      expect(pipeline).to.deep.equal([
+        { $match: { $and: [{ 'tenantId': 1 }, { 'title': { $regex: 'GraphQL' } }] } },
+        { $limit: 10 },
+        { $lookup: { from: 'users', localField: 'authorId', foreignField: '_id', as: 'author' } },
+      ]);
+    });
+  });
+
+  describe('pageQuery', () => {
+    it('should fetch one extra document to find out whether there is another page', () => {
+      // Act
+      const page = pageQuery({ collection: 'users', cursor: { backward: false }, limit: 0, query: {}, fields: {}, sort: {} });
+
+      // Assert
+      expect(page.limit).to.equal(1);
+    });
+
+    it('should reject page sizes that are not non-negative integers', () => {
+      // Act / Assert
+      expect(() => pageQuery({ collection: 'users', cursor: { backward: false }, limit: -1, query: {}, fields: {}, sort: {} }))
+        .to.throw(`Page size of -1 on collection 'users' must be a non-negative integer`);
+    });
+  });
+
+  describe('findMultiple', () => {
+    // A cursor whose toArray is answered by the passed function
+    const stubCursor = (toArray: () => Promise<any[]>) => {
+      const cursor: any = {
+        maxTimeMS: sinon.stub(),
+        sort: sinon.stub(),
+        toArray: sinon.stub().callsFake(toArray),
+        close: sinon.stub().returns(Promise.resolve()),
+      };
+      cursor.maxTimeMS.returns(cursor);
+      cursor.sort.returns(cursor);
+      return cursor;
+    };
+    const stubConnection = (cursors: { [collection: string]: any }): any => ({
+      collection: (name: string) => ({ collectionName: name, find: () => cursors[name] }),
+    });
+
+    it('should return an error for a collection that exceeds its time limit and results for the others', async () => {
+      // Arrange
+      const users = stubCursor(() => Promise.reject({ code: 50, message: 'operation exceeded time limit' }));
+      const cities = stubCursor(() => Promise.resolve([{ name: 'Miami' }]));
+      const connection = stubConnection({ users, cities });
+
+      // Act
+      const [usersResult, citiesResult] = await findMultiple(connection, [
+        queryInfo({ collection: 'users', maxTimeMS: 100 }),
+        queryInfo({ collection: 'cities', maxTimeMS: 100 }),
+      ]);
+
+      // Assert
+      expect(users.maxTimeMS.calledWith(100)).to.equal(true);
+      expect(usersResult.error.message).to.equal(`Query on collection 'users' exceeded the time limit of 100ms`);
+      expect(citiesResult.error).to.be.null;
+      expect(citiesResult.results).to.deep.equal([{ name: 'Miami' }]);
+    });
+
+    it('should close the cursors of running queries when aborted', async () => {
+      // Arrange
+      const listeners: (() => void)[] = [];
+      const signal: CancellationSignal = {
+        aborted: false,
+        addEventListener: (type, listener) => listeners.push(listener),
+        removeEventListener: (type, listener) => listeners.splice(listeners.indexOf(listener), 1),
+      };
+      const users = stubCursor(() => new Promise<any[]>(() => { /* never finishes */ }));
+      const connection = stubConnection({ users });
+
+      // Act
+      const pending = findMultiple(connection, [queryInfo({ collection: 'users' })], signal);
+      listeners.slice().forEach(listener => listener());
+      const [result] = await pending;
+
+      // Assert
+      expect(users.toArray.calledOnce).to.equal(true);
+      expect(users.close.calledOnce).to.equal(true);
+      expect(result.error.message).to.equal(`Query on collection 'users' was aborted`);
+    });
+  });
+});
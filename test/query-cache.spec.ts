@@ -0,0 +1,92 @@
+import { expect } from 'chai';
+import { ObjectID } from 'mongodb';
+import { cacheKey, MemoryCache } from '../src/query-cache';
+import { queryInfoWith } from './util/query-info';
+
+describe('Query cache', () => {
+  describe('MemoryCache', () => {
+    it('should return stored values until they expire', async () => {
+      // Arrange
+      const cache = new MemoryCache();
+      cache.set('fresh', [1], 60000);
+      cache.set('expired', [2], 1);
+      await new Promise(resolve => setTimeout(resolve, 10));
+
+      // Act / Assert
+      expect(cache.get('fresh')).to.deep.equal([1]);
+      expect(cache.get('expired')).to.be.undefined;
+      expect(cache.get('missing')).to.be.undefined;
+    });
+
+    it('should remove the least recently used values once full', () => {
+      // Arrange
+      const cache = new MemoryCache(2);
+      cache.set('a', 1, 60000);
+      cache.set('b', 2, 60000);
+      cache.get('a');
+
+      // Act
+      cache.set('c', 3, 60000);
+
+      // Assert
+      expect(cache.get('a')).to.equal(1);
+      expect(cache.get('b')).to.be.undefined;
+      expect(cache.get('c')).to.equal(3);
+    });
+
+    it('should not share stored values with callers', () => {
+      // Arrange
+      const cache = new MemoryCache();
+      const results = [{ _id: new ObjectID('5a1b2c3d4e5f6a7b8c9d0e1f'), name: 'User 1', tags: ['a'] }];
+      cache.set('users', { results }, 60000);
+
+      // Act
+      results[0].name = 'Changed';
+      cache.get('users').results[0].tags.push('b');
+
+      // Assert
+      expect(cache.get('users')).to.deep.equal({
+        results: [{ _id: new ObjectID('5a1b2c3d4e5f6a7b8c9d0e1f'), name: 'User 1', tags: ['a'] }],
+      });
+    });
+
+    it('should delete values', () => {
+      // Arrange
+      const cache = new MemoryCache();
+      cache.set('a', 1, 60000);
+
+      // Act
+      cache.delete('a');
+
+      // Assert
+      expect(cache.get('a')).to.be.undefined;
+    });
+  });
+
+  describe('cacheKey', () => {
+    const queryInfo = queryInfoWith({
+      query: { _id: { $eq: new ObjectID('5a1b2c3d4e5f6a7b8c9d0e1f') } },
+      fields: { name: 1, age: 1 },
+      sort: { name: 1, age: -1 },
+      limit: 10,
+    });
+
+    it('should not depend on the order of the projected fields', () => {
+      // Act / Assert
+      expect(cacheKey(queryInfo({ fields: { age: 1, name: 1 } }))).to.equal(cacheKey(queryInfo({})));
+      expect(cacheKey(queryInfo({ skip: 0 }))).to.equal(cacheKey(queryInfo({})));
+    });
+
+    it('should differ for queries that return different documents', () => {
+      // Arrange
+      const key = cacheKey(queryInfo({}));
+
+      // Act / Assert
+      expect(cacheKey(queryInfo({ collection: 'places' }))).not.to.equal(key);
+      expect(cacheKey(queryInfo({ query: { _id: { $eq: new ObjectID('5a1b2c3d4e5f6a7b8c9d0e20') } } }))).not.to.equal(key);
+      expect(cacheKey(queryInfo({ sort: { age: -1, name: 1 } }))).not.to.equal(key);
+      expect(cacheKey(queryInfo({ skip: 10 }))).not.to.equal(key);
+      expect(cacheKey(queryInfo({ limit: 20 }))).not.to.equal(key);
+    });
+  });
+});
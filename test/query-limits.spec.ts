@@ -0,0 +1,202 @@
+import gql from 'graphql-tag';
+import { expect } from 'chai';
+import { graphqlToMongo } from '../src/graphql-to-mongo';
+import { checkQueryLimits, queryCost } from '../src/query-limits';
+
+describe('Query limits', () => {
+  const queryInfos = (query: string, variables?: object) => graphqlToMongo(gql(query), variables)
+    .map(info => ({ ...info, limit: typeof info.limit === 'number' ? info.limit : 100 }));
+
+  it('should not report anything without limits', () => {
+    // Arrange
+    const infos = queryInfos(`
+      {
+        users {
+          name (regex: "Jane")
+          address {
+            city (eq: "Miami")
+          }
+        }
+      }
+    `);
+
+    // Act / Assert
+    expect(checkQueryLimits(infos, {})).to.deep.equal([]);
+  });
+
+  it('should report too many collections', () => {
+    // Arrange
+    const infos = queryInfos(`
+      {
+        users {
+          name
+        }
+        places {
+          name
+        }
+      }
+    `);
+
+    // Act
+    const errors = checkQueryLimits(infos, { maxCollections: 1 });
+
+    // Assert
+    expect(errors).to.deep.equal([
+      {
+        message: 'Query uses 2 collections, more than the maximum of 1',
+        limit: 'maxCollections',
+        value: 2,
+        max: 1,
+      }
+    ]);
+  });
+
+  it('should report fields that are nested too deeply', () => {
+    // Arrange
+    const infos = queryInfos(`
+      {
+        users {
+          name
+          address {
+            geo {
+              lat (gt: 25)
+            }
+          }
+        }
+      }
+    `);
+
+    // Act
+    const errors = checkQueryLimits(infos, { maxDepth: 2 });
+
+    // Assert
+    expect(errors).to.deep.equal([
+      {
+        message: `Field 'address.geo.lat' on collection 'users' is nested 3 levels deep, more than the maximum of 2`,
+        limit: 'maxDepth',
+        collection: 'users',
+        field: 'address.geo.lat',
+        value: 3,
+        max: 2,
+      }
+    ]);
+  });
+
+  it('should count filter operators including logical operators and elemMatch', () => {
+    // Arrange
+    const infos = queryInfos(`
+      {
+        users {
+          age (gte: 18, lt: 65)
+          name (regex: "^J", options: "i") @or
+          nickname (regex: "^J") @or
+          visits (elemMatch: true) {
+            page (eq: "/")
+          }
+        }
+      }
+    `);
+
+    // Act
+    const errors = checkQueryLimits(infos, { maxFilterOperators: 5 });
+
+    // Assert
+    expect(errors.map(error => error.message)).to.deep.equal([
+      `Filter on collection 'users' uses 7 operators, more than the maximum of 5`,
+    ]);
+  });
+
+  it('should report unanchored regexes', () => {
+    // Arrange
+    const infos = queryInfos(`
+      {
+        users {
+          firstName (regex: "^J")
+          lastName (regex: "son$")
+        }
+        places {
+          name (regex: "Park")
+        }
+      }
+    `);
+
+    // Act
+    const errors = checkQueryLimits(infos, { regex: { users: 'anchored' } });
+
+    // Assert
+    expect(errors).to.deep.equal([
+      {
+        message: `Field 'lastName' on collection 'users' can only be filtered with a regex that starts with ^`,
+        limit: 'regex',
+        collection: 'users',
+        field: 'lastName',
+        value: 'son$',
+      }
+    ]);
+  });
+
+  it('should report any regex when regexes are denied', () => {
+    // Arrange
+    const infos = queryInfos(`
+      {
+        users {
+          firstName (regex: "^J")
+        }
+      }
+    `);
+
+    // Act
+    const errors = checkQueryLimits(infos, { regex: 'deny' });
+
+    // Assert
+    expect(errors.map(error => error.message)).to.deep.equal([
+      `Field 'firstName' on collection 'users' can not be filtered with a regex`,
+    ]);
+  });
+
+  it('should report queries that cost too much', () => {
+    // Arrange
+    const infos = queryInfos(`
+      {
+        users (limit: 50) {
+          firstName
+          lastName
+        }
+        places (limit: 10) {
+          name
+        }
+      }
+    `);
+
+    // Act
+    const errors = checkQueryLimits(infos, { maxCost: 100 });
+
+    // Assert
+    expect(queryCost(infos[0])).to.equal(100);
+    expect(errors).to.deep.equal([
+      {
+        message: 'Query has a cost of 110, more than the maximum of 100',
+        limit: 'maxCost',
+        value: 110,
+        max: 100,
+      }
+    ]);
+  });
+
+  it('should use a custom cost function', () => {
+    // Arrange
+    const infos = queryInfos(`
+      {
+        users (limit: 50) {
+          firstName
+        }
+      }
+    `);
+
+    // Act
+    const errors = checkQueryLimits(infos, { maxCost: 100, cost: info => info.limit * 3 });
+
+    // Assert
+    expect(errors.map(error => error.value)).to.deep.equal([150]);
+  });
+});
@@ -0,0 +1,82 @@
+import { expect } from 'chai';
+import { ObjectID } from 'mongodb';
+import { renderMongoQuery } from '../src/render-query';
+import { queryInfo } from './util/query-info';
+
+describe('Render query', () => {
+  it('should render a find as a shell command, Extended JSON and driver options', () => {
+    // Arrange
+    const id = new ObjectID('5a1b2c3d4e5f6a7b8c9d0e1f');
+    const info = queryInfo({
+      query: { _id: { $ne: id }, name: { $eq: 'Jane' } },
+      fields: { name: 1 },
+      sort: { name: 1 },
+      skip: 20,
+      limit: 10,
+      collation: { locale: 'en', strength: 2 },
+      readPreference: 'secondary',
+    });
+
+    // Act
+    const rendered = renderMongoQuery(info);
+
+    // Assert
+    expect(rendered).to.deep.equal({
+      shell: 'db.users.find({ "_id": { "$ne": ObjectId("5a1b2c3d4e5f6a7b8c9d0e1f") }, "name": { "$eq": "Jane" } }, { "name": 1 })' +
+        '.sort({ "name": 1 }).skip(20).limit(10).collation({ "locale": "en", "strength": 2 }).readPref("secondary")',
+      extendedJson: '{"find":"users","filter":{"_id":{"$ne":{"$oid":"5a1b2c3d4e5f6a7b8c9d0e1f"}},"name":{"$eq":"Jane"}},' +
+        '"projection":{"name":1},"sort":{"name":1},"skip":20,"limit":10,"collation":{"locale":"en","strength":2}}',
+      options: {
+        fields: { name: 1 },
+        sort: { name: 1 },
+        skip: 20,
+        limit: 10,
+        readPreference: 'secondary',
+        collation: { locale: 'en', strength: 2 },
+      },
+    });
+  });
+
+  it('should render joins as an aggregate', () => {
+    // Arrange
+    const info = queryInfo({
+      collection: 'user-posts',
+      lookups: [{ from: 'users', localField: 'authorId', foreignField: '_id', as: 'author' }],
+      fields: { 'author.name': 1 },
+      limit: 5,
+      maxTimeMS: 1000,
+    });
+
+    // Act
+    const rendered = renderMongoQuery(info);
+
+    // Assert
+    expect(rendered.shell).to.equal(
+      'db.getCollection("user-posts").aggregate([{ "$limit": 5 }, ' +
+      '{ "$lookup": { "from": "users", "localField": "authorId", "foreignField": "_id", "as": "author" } }, ' +
+      '{ "$project": { "author.name": 1 } }], { "maxTimeMS": 1000 })'
+    );
+    expect(JSON.parse(rendered.extendedJson)).to.deep.equal({
+      aggregate: 'user-posts',
+      pipeline: [
+        { $limit: 5 },
+        { $lookup: { from: 'users', localField: 'authorId', foreignField: '_id', as: 'author' } },
+        { $project: { 'author.name': 1 } },
+      ],
+      cursor: {},
+      maxTimeMS: 1000,
+    });
+    expect(rendered.options).to.deep.equal({ maxTimeMS: 1000 });
+  });
+
+  it('should render the page of a query that uses cursors', () => {
+    // Arrange
+    const info = queryInfo({ cursor: { backward: false }, limit: 10, sort: { name: -1 } });
+
+    // Act
+    const rendered = renderMongoQuery(info);
+
+    // Assert
+    expect(rendered.shell).to.equal('db.users.find({}, {}).sort({ "name": -1, "_id": 1 }).limit(11)');
+  });
+});
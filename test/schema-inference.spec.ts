@@ -0,0 +1,192 @@
+import { expect } from 'chai';
+import { buildSchema, GraphQLList, GraphQLObjectType } from 'graphql';
+import { Binary, Decimal128, ObjectID } from 'mongodb';
+import { inferShape, printSchemaSdl, schemaFromShapes } from '../src/schema-inference';
+
+describe('Schema inference', () => {
+  describe('inferShape', () => {
+    it('should collect the types of scalar fields', () => {
+      // Act
+      const shape = inferShape([
+        {
+          _id: new ObjectID(),
+          name: 'Jane',
+          age: 30,
+          score: 1.5,
+          active: true,
+          createdAt: new Date(),
+          balance: Decimal128.fromString('10.25'),
+          token: new Binary(Buffer.alloc(16), Binary.SUBTYPE_UUID),
+        },
+      ]);
+
+      // Assert
+      expect(shape).to.deep.equal({
+        _id: { types: ['ObjectId'] },
+        name: { types: ['String'] },
+        age: { types: ['Int'] },
+        score: { types: ['Float'] },
+        active: { types: ['Boolean'] },
+        createdAt: { types: ['Date'] },
+        balance: { types: ['Decimal'] },
+        token: { types: ['UUID'] },
+      });
+    });
+
+    it('should merge fields and types across documents and ignore nulls', () => {
+      // Act
+      const shape = inferShape([
+        { name: 'Jane', age: 30 },
+        { name: null, age: 30.5, nickname: 'JJ' },
+        { age: '31' },
+      ]);
+
+      // Assert
+      expect(shape).to.deep.equal({
+        name: { types: ['String'] },
+        age: { types: ['Int', 'Float', 'String'] },
+        nickname: { types: ['String'] },
+      });
+    });
+
+    it('should merge nested documents and the items of arrays', () => {
+      // Act
+      const shape = inferShape([
+        { address: { city: 'Miami' }, tags: ['a'], visits: [{ at: new Date() }] },
+        { address: { zip: '33101' }, tags: [], visits: [{ page: '/' }] },
+      ]);
+
+      // Assert
+      expect(shape).to.deep.equal({
+        address: {
+          types: ['Object'],
+          fields: {
+            city: { types: ['String'] },
+            zip: { types: ['String'] },
+          }
+        },
+        tags: {
+          types: ['Array'],
+          items: { types: ['String'] },
+        },
+        visits: {
+          types: ['Array'],
+          items: {
+            types: ['Object'],
+            fields: {
+              at: { types: ['Date'] },
+              page: { types: ['String'] },
+            }
+          }
+        },
+      });
+    });
+  });
+
+  describe('printSchemaSdl', () => {
+    it('should add a field with the collection arguments to Query for every collection', () => {
+      // Act
+      const sdl = printSchemaSdl({
+        users: inferShape([{ name: 'Jane' }]),
+      });
+
+      // Assert
+      expect(sdl).to.contain(
+        '  users(limit: Int, skip: Int, count: Boolean, first: Int, last: Int, after: String, before: String, search: String, language: String, caseSensitive: Boolean): [Users]'
+      );
+    });
+
+    it('should add the filter arguments to leaves', () => {
+      // Act
+      const sdl = printSchemaSdl({
+        users: inferShape([{ age: 30 }]),
+      });
+
+      // Assert
+      expect(sdl).to.contain(
+        '  age(eq: Int, ne: Int, gt: Int, gte: Int, lt: Int, lte: Int, in: [Int], nin: [Int], exists: Boolean, regex: String, options: String): Int'
+      );
+    });
+
+    it('should add types for nested documents and lists', () => {
+      // Act
+      const schema = buildSchema(printSchemaSdl({
+        users: inferShape([
+          { address: { city: 'Miami' }, tags: ['a'], visits: [{ page: '/' }] },
+        ]),
+      }));
+
+      // Assert
+      const users = <GraphQLObjectType>schema.getType('Users');
+      const fields = users.getFields();
+      expect(String(fields.address.type)).to.equal('UsersAddress');
+      expect(fields.address.args.map(arg => arg.name)).to.deep.equal(['include']);
+      expect(String(fields.tags.type)).to.equal('[String]');
+      expect(fields.visits.type).to.be.instanceOf(GraphQLList);
+      expect(String(fields.visits.type)).to.equal('[UsersVisits]');
+      expect(fields.visits.args.map(arg => arg.name)).to.deep.equal(['include', 'elemMatch']);
+    });
+
+    it('should fall back to JSON for fields with more than one kind of value', () => {
+      // Act
+      const schema = buildSchema(printSchemaSdl({
+        users: inferShape([
+          { age: 30, score: 1, status: 'active' },
+          { age: 30.5, score: '1', status: { code: 1 } },
+        ]),
+      }));
+
+      // Assert
+      const fields = (<GraphQLObjectType>schema.getType('Users')).getFields();
+      expect(String(fields.age.type)).to.equal('Float');
+      expect(String(fields.score.type)).to.equal('JSON');
+      expect(String(fields.status.type)).to.equal('JSON');
+    });
+
+    it('should infer GeoJSON locations as JSON with geospatial arguments', () => {
+      // Act
+      const schema = buildSchema(printSchemaSdl({
+        stores: inferShape([{ name: 'Downtown', location: { type: 'Point', coordinates: [-80.19, 25.76] } }]),
+      }));
+
+      // Assert
+      const fields = (<GraphQLObjectType>schema.getType('Stores')).getFields();
+      expect(String(fields.location.type)).to.equal('JSON');
+      expect(fields.location.args.map(arg => arg.name)).to.include.members(['near', 'maxDistance', 'geoWithin']);
+      expect(fields.name.args.map(arg => arg.name)).not.to.include('near');
+    });
+
+    it('should skip fields that are not valid GraphQL names', () => {
+      // Act
+      const schema = buildSchema(printSchemaSdl({
+        users: inferShape([{ 'name': 'Jane', 'first-name': 'Jane', '1st': true, '__v': 0 }]),
+      }));
+
+      // Assert
+      const fields = (<GraphQLObjectType>schema.getType('Users')).getFields();
+      expect(Object.keys(fields)).to.deep.equal(['name']);
+    });
+
+    it('should throw if there are no documents', () => {
+      // Act / Assert
+      expect(() => printSchemaSdl({ users: inferShape([]) })).to.throw('No documents found to infer a schema from.');
+    });
+  });
+
+  describe('schemaFromShapes', () => {
+    it('should return the SDL and introspection result', async () => {
+      // Act
+      const result = await schemaFromShapes({
+        users: inferShape([{ _id: new ObjectID(), name: 'Jane' }]),
+      });
+
+      // Assert
+      const typeNames = result.introspection.__schema.types.map(type => type.name);
+      expect(result.sdl).to.contain('type Users {');
+      expect(result.introspection.__schema.queryType.name).to.equal('Query');
+      expect(typeNames).to.include.members(['Users', 'ObjectId', 'JSON']);
+      expect(result.introspection.__schema.directives.map(directive => directive.name))
+        .to.include.members(['sort', 'sortDesc', 'or', 'lookup', 'aggregate', 'objectId']);
+    });
+  });
+});
@@ -0,0 +1,164 @@
+import gql from 'graphql-tag';
+import { expect } from 'chai';
+import { buildSchema, formatError } from 'graphql';
+import { buildValidationSchema, validateQuery } from '../src/schema-validation';
+
+describe('Schema validation', () => {
+  const schema = buildValidationSchema(`
+    type Query {
+      users(limit: Int, skip: Int): [User]
+    }
+
+    type User {
+      _id(eq: ObjectId, in: [ObjectId]): ObjectId
+      name(eq: String, regex: String): String
+      age(eq: Int, gte: Int): Int
+      address(include: Boolean): Address
+    }
+
+    type Address {
+      city(eq: String): String
+    }
+  `);
+
+  const errorsFor = (query: string, variables?: object) => validateQuery(schema, gql(query), variables)
+    .map(formatError);
+
+  describe('buildValidationSchema', () => {
+    it('should add the scalars and directives of the library to SDL', () => {
+      // Act
+      const directives = schema.getDirectives().map(directive => directive.name);
+
+      // Assert
+      expect(schema.getType('ObjectId')).to.exist;
+      expect(schema.getType('JSON')).to.exist;
+      expect(directives).to.include.members(['include', 'skip', 'sort', 'sortDesc', 'or', 'nor', 'lookup', 'objectId']);
+    });
+
+    it('should keep scalars and directives the SDL defines itself', () => {
+      // Act
+      const result = buildValidationSchema(`
+        scalar Date
+        directive @sort(order: Int) on FIELD
+        type Query {
+          users: [String]
+        }
+      `);
+
+      // Assert
+      expect(result.getDirective('sort').args.map(arg => arg.name)).to.deep.equal(['order']);
+    });
+
+    it('should return schemas that are already built', () => {
+      // Arrange
+      const built = buildSchema(`type Query { users: [String] }`);
+
+      // Act / Assert
+      expect(buildValidationSchema(built)).to.equal(built);
+    });
+  });
+
+  describe('validateQuery', () => {
+    it('should accept valid queries', () => {
+      // Act
+      const errors = errorsFor(`
+        {
+          users(limit: 10) {
+            _id(eq: "5a1b2c3d4e5f6a7b8c9d0e1f")
+            name(regex: $name) @sort
+            age(gte: $age)
+            address {
+              city
+            }
+          }
+        }
+      `, { name: '^J', age: 21 });
+
+      // Assert
+      expect(errors).to.deep.equal([]);
+    });
+
+    it('should reject unknown collections and fields with their locations', () => {
+      // Act
+      const errors = errorsFor(`{
+  users {
+    nmae
+  }
+  places {
+    name
+  }
+}`);
+
+      // Assert
+      expect(errors).to.deep.equal([
+        {
+          message: 'Cannot query field "nmae" on type "User". Did you mean "name"?',
+          locations: [{ line: 3, column: 5 }],
+          path: undefined,
+        },
+        {
+          message: 'Cannot query field "places" on type "Query".',
+          locations: [{ line: 5, column: 3 }],
+          path: undefined,
+        },
+      ]);
+    });
+
+    it('should reject literal arguments of the wrong type', () => {
+      // Act
+      const errors = errorsFor(`{
+  users {
+    age(gte: "twenty")
+  }
+}`);
+
+      // Assert
+      expect(errors).to.have.length(1);
+      expect(errors[0].message).to.contain('Argument "gte" has invalid value "twenty"');
+      expect(errors[0].locations).to.deep.equal([{ line: 3, column: 14 }]);
+    });
+
+    it('should reject variables of the wrong type', () => {
+      // Act
+      const errors = errorsFor(`{
+  users(limit: $limit) {
+    name
+  }
+}`, { limit: 'all' });
+
+      // Assert
+      expect(errors).to.have.length(1);
+      expect(errors[0].message).to.contain('Argument "limit" has invalid value.');
+      expect(errors[0].locations).to.deep.equal([{ line: 2, column: 16 }]);
+    });
+
+    it('should reject values that are not valid for BSON scalars', () => {
+      // Act
+      const errors = errorsFor(`{
+  users {
+    _id(in: ["5a1b2c3d4e5f6a7b8c9d0e1f", $id])
+  }
+}`, { id: 'nope' });
+
+      // Assert
+      expect(errors.map(error => error.message)).to.deep.equal([
+        `Argument "in" has invalid value. Value 'nope' for field '_id' is not a valid ObjectId.`,
+      ]);
+    });
+
+    it('should reject ObjectIds that are not 24 hex characters', () => {
+      // Act
+      const errors = errorsFor(`{
+  users {
+    _id(in: ["twelve chars", $id])
+  }
+}`, { id: 42 });
+
+      // Assert
+      expect(errors.map(error => error.message)).to.deep.equal([
+        `Argument "in" has invalid value. Value 'twelve chars' for field '_id' is not a valid ObjectId.`,
+        `Argument "in" has invalid value. Value '42' for field '_id' is not a valid ObjectId.`,
+      ]);
+    });
+  });
+});
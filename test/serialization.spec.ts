@@ -0,0 +1,102 @@
+import { expect } from 'chai';
+import { Binary, Decimal128, Long, ObjectID } from 'mongodb';
+import { serializeResult } from '../src/serialization';
+
+describe('Serialization', () => {
+  const id = '5a1b2c3d4e5f6a7b8c9d0e1f';
+  const document = () => ({
+    _id: new ObjectID(id),
+    name: 'Jane',
+    age: 30,
+    score: 1.5,
+    createdAt: new Date('2017-01-17T05:00:00.000Z'),
+    balance: Decimal128.fromString('10.25'),
+    visits: Long.fromNumber(42),
+    token: new Binary(Buffer.from('123e4567e89b12d3a456426655440000', 'hex'), Binary.SUBTYPE_UUID),
+    friends: [
+      { _id: new ObjectID(id), name: 'John' },
+    ],
+  });
+
+  it('should leave results alone by default', () => {
+    // Arrange
+    const result = [document()];
+
+    // Act / Assert
+    expect(serializeResult(result, {})).to.equal(result);
+  });
+
+  it('should serialize to plain JSON', () => {
+    // Act
+    const result = serializeResult([document()], { mode: 'json' });
+
+    // Assert
+    expect(result).to.deep.equal([
+      {
+        _id: id,
+        name: 'Jane',
+        age: 30,
+        score: 1.5,
+        createdAt: '2017-01-17T05:00:00.000Z',
+        balance: '10.25',
+        visits: 42,
+        token: '123e4567-e89b-12d3-a456-426655440000',
+        friends: [
+          { _id: id, name: 'John' },
+        ],
+      }
+    ]);
+  });
+
+  it('should serialize to relaxed Extended JSON', () => {
+    // Act
+    const result = serializeResult(document(), { mode: 'relaxed' });
+
+    // Assert
+    expect(result).to.deep.equal({
+      _id: { $oid: id },
+      name: 'Jane',
+      age: 30,
+      score: 1.5,
+      createdAt: { $date: '2017-01-17T05:00:00.000Z' },
+      balance: { $numberDecimal: '10.25' },
+      visits: 42,
+      token: { $binary: { base64: 'Ej5FZ+ibEtOkVkJmVUQAAA==', subType: '04' } },
+      friends: [
+        { _id: { $oid: id }, name: 'John' },
+      ],
+    });
+  });
+
+  it('should serialize to canonical Extended JSON', () => {
+    // Act
+    const result = serializeResult(document(), { mode: 'canonical' });
+
+    // Assert
+    expect(result).to.deep.equal({
+      _id: { $oid: id },
+      name: 'Jane',
+      age: { $numberInt: '30' },
+      score: { $numberDouble: '1.5' },
+      createdAt: { $date: { $numberLong: '1484629200000' } },
+      balance: { $numberDecimal: '10.25' },
+      visits: { $numberLong: '42' },
+      token: { $binary: { base64: 'Ej5FZ+ibEtOkVkJmVUQAAA==', subType: '04' } },
+      friends: [
+        { _id: { $oid: id }, name: 'John' },
+      ],
+    });
+  });
+
+  it('should rename _id to id in nested documents and arrays', () => {
+    // Act
+    const result = serializeResult({ _id: 1, friends: [{ _id: 2 }], address: { _id: 3 } }, { renameId: true });
+
+    // Assert
+    expect(result).to.deep.equal({
+      id: 1,
+      friends: [{ id: 2 }],
+      address: { id: 3 },
+    });
+  });
+});
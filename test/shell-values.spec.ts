@@ -0,0 +1,39 @@
+import { expect } from 'chai';
+import { Binary, Decimal128, Long, ObjectID } from 'mongodb';
+import { renderShellValue } from '../src/shell-values';
+
+describe('Shell values', () => {
+  it('should render documents and arrays', () => {
+    // Act
+    const rendered = renderShellValue({ name: { $in: ['Jane', 'John'] }, age: { $gt: 18.5 }, tags: [], address: {}, active: true });
+
+    // Assert
+    expect(rendered).to.equal(
+      '{ "name": { "$in": ["Jane", "John"] }, "age": { "$gt": 18.5 }, "tags": [], "address": {}, "active": true }'
+    );
+  });
+
+  it('should render BSON values with the shell helpers', () => {
+    // Arrange
+    const value = {
+      _id: new ObjectID('5a1b2c3d4e5f6a7b8c9d0e1f'),
+      createdAt: new Date('2017-01-02T03:04:05.000Z'),
+      price: Decimal128.fromString('9.99'),
+      views: Long.fromString('9007199254740993'),
+      key: new Binary(Buffer.from('0123456789abcdef0123456789abcdef', 'hex'), Binary.SUBTYPE_UUID),
+      name: /^jane/i,
+      missing: undefined as any,
+      nothing: null as any,
+    };
+
+    // Act
+    const rendered = renderShellValue(value);
+
+    // Assert
+    expect(rendered).to.equal(
+      '{ "_id": ObjectId("5a1b2c3d4e5f6a7b8c9d0e1f"), "createdAt": ISODate("2017-01-02T03:04:05.000Z"), ' +
+      '"price": NumberDecimal("9.99"), "views": NumberLong("9007199254740993"), ' +
+      '"key": UUID("0123456789abcdef0123456789abcdef"), "name": /^jane/i, "nothing": null }'
+    );
+  });
+});
@@ -0,0 +1,23 @@
+import { MongoQueryInfo } from '../../src/graphql-to-mongo';
+
+/**
+ * Creates a factory of {MongoQueryInfo}s that set the passed properties on top of the defaults.
+ *
+ * @param defaults The properties that every {MongoQueryInfo} of the factory starts with.
+ */
+export function queryInfoWith(defaults: Partial<MongoQueryInfo>): (info: Partial<MongoQueryInfo>) => MongoQueryInfo {
+  return info => ({
+    collection: 'users',
+    query: {},
+    fields: {},
+    sort: {},
+    ...defaults,
+    ...info,
+  });
+}
+
+/**
+ * Builds a {MongoQueryInfo} on the users collection that matches every document, with the passed properties
+ * set on top.
+ */
+export const queryInfo = queryInfoWith({});